@@ -0,0 +1,594 @@
+import React, {useState} from "react";
+import {act, fireEvent, render, screen, waitFor} from "@testing-library/react";
+import {axe, toHaveNoViolations} from "jest-axe";
+import Search, {createMemoryHistoryStorage, SearchHandle} from "./Search";
+import {SearchOption} from "./parser";
+
+expect.extend(toHaveNoViolations)
+
+const options: SearchOption[] = [
+    {name: "status", type: "enum", options: ["open", "closed"]},
+    {name: "author", type: "string"},
+    {name: "stars", type: "number"},
+]
+
+function getInput() {
+    return screen.getByRole("combobox")
+}
+
+// replaces the text of the contentEditable like a user edit would and puts the caret at the given offset
+function typeQuery(el: HTMLElement, query: string, caret = query.length) {
+    el.textContent = query
+    const range = document.createRange()
+    range.setStart(el.firstChild ?? el, caret)
+    range.collapse(true)
+    const sel = window.getSelection() as Selection
+    sel.removeAllRanges()
+    sel.addRange(range)
+    act(() => {
+        fireEvent.input(el)
+    })
+}
+
+function caretOffset(el: HTMLElement) {
+    const sel = window.getSelection() as Selection
+    const range = document.createRange()
+    range.setStart(el, 0)
+    range.setEnd(sel.focusNode as Node, sel.focusOffset)
+    return range.toString().length
+}
+
+function pressKey(el: HTMLElement, key: string, init: KeyboardEventInit = {}) {
+    act(() => {
+        fireEvent.keyDown(el, {key, ...init})
+    })
+}
+
+describe("Search", () => {
+    test("renders a span per token", () => {
+        render(<Search options={options}/>)
+        const input = getInput()
+        typeQuery(input, "status:open hello")
+        expect(Array.from(input.querySelectorAll(".token")).map(span => span.textContent)).toEqual(["status:", "open", " ", "hello"])
+    })
+
+    test("keeps the caret where it was typed", () => {
+        render(<Search options={options}/>)
+        const input = getInput()
+        typeQuery(input, "author:bob hello", 9)
+        expect(caretOffset(input)).toBe(9)
+    })
+
+    test("reports the params of a valid query to onChange", () => {
+        const onChange = jest.fn()
+        const onError = jest.fn()
+        render(<Search options={options} onChange={onChange} onError={onError}/>)
+        typeQuery(getInput(), "stars:3 hello")
+        expect(onChange).toHaveBeenLastCalledWith({text: ["hello"], options: {stars: {value: 3}}}, "stars:3 hello", expect.anything())
+        expect(onError).not.toHaveBeenCalled()
+    })
+
+    test("reports the errors of an invalid query to onError", () => {
+        const onChange = jest.fn()
+        const onError = jest.fn()
+        render(<Search options={options} onChange={onChange} onError={onError}/>)
+        typeQuery(getInput(), "stars:abc")
+        expect(onChange).not.toHaveBeenCalled()
+        expect(onError).toHaveBeenCalledTimes(1)
+        expect(onError.mock.calls[0][0].map((error: {code: string}) => error.code)).toEqual(["invalid-number-value"])
+        expect(onError.mock.calls[0][1]).toBe("stars:abc")
+        expect(getInput().getAttribute("aria-invalid")).toBe("true")
+    })
+
+    test("completes option names and values with Tab", () => {
+        const onChange = jest.fn()
+        render(<Search options={options} onChange={onChange}/>)
+        const input = getInput()
+        typeQuery(input, "stat")
+        expect(screen.getAllByRole("option")[0].textContent).toContain("status:")
+
+        pressKey(input, "Tab")
+        expect(input.textContent).toBe("status:")
+        expect(caretOffset(input)).toBe(7)
+        expect(screen.getAllByRole("option").map(option => option.textContent)).toEqual(["open", "closed"])
+
+        pressKey(input, "ArrowDown")
+        pressKey(input, "Tab")
+        expect(input.textContent).toBe("status:closed")
+        expect(onChange).toHaveBeenLastCalledWith({text: [], options: {status: {value: "closed"}}}, "status:closed", expect.anything())
+    })
+
+    test("highlights the matched characters of labels and shows the name next to them", () => {
+        render(<Search options={[{name: "status", title: "State", type: "enum", options: ["open", "closed"], labels: {open: "Opened"}}]}/>)
+        const input = getInput()
+        typeQuery(input, "sta")
+        const [entry] = screen.getAllByRole("option")
+        expect(Array.from(entry.querySelectorAll("mark")).map(mark => mark.textContent)).toEqual(["S", "t", "a", "s", "t", "a"])
+        expect(entry.querySelector(".autocomplete-name")?.textContent).toBe("status:")
+
+        typeQuery(input, "status:ope")
+        const [open] = screen.getAllByRole("option")
+        expect(open.textContent).toContain("Opened")
+        expect(Array.from(open.querySelectorAll("mark")).map(mark => mark.textContent).join("")).toBe("Opeope")
+        expect(open.querySelector(".autocomplete-name")?.textContent).toBe("open")
+    })
+
+    test("leaves options out of the suggestions that conflict with the query", () => {
+        render(<Search options={[
+            {name: "assignee", type: "string", conflictsWith: ["unassigned"]},
+            {name: "unassigned", type: "boolean"},
+            {name: "author", type: "string"},
+        ]}/>)
+        const input = getInput()
+        typeQuery(input, "a")
+        expect(screen.getAllByRole("option").map(option => option.textContent).sort()).toEqual(["assignee:", "author:", "unassigned:"])
+        typeQuery(input, "unassigned:yes a")
+        expect(screen.getAllByRole("option").map(option => option.textContent)).not.toContain("assignee:")
+        expect(screen.getAllByRole("option").map(option => option.textContent)).toContain("author:")
+    })
+
+    describe("normalize", () => {
+        const normalizing: SearchOption[] = [{name: "author", type: "string", deprecatedNames: ["owner"]}]
+
+        function paste(el: HTMLElement, text: string) {
+            act(() => {
+                fireEvent.paste(el, {clipboardData: {getData: () => text}})
+            })
+        }
+
+        test("reports deprecated names in a pasted query", () => {
+            const onNormalize = jest.fn()
+            render(<Search options={normalizing} onNormalize={onNormalize}/>)
+            const input = getInput()
+            paste(input, "owner:bob")
+            expect(input.textContent).toBe("owner:bob")
+            expect(onNormalize).toHaveBeenCalledWith([{start: 0, end: 6, from: "owner:", to: "author:"}], "author:bob")
+        })
+
+        test("rewrites a pasted query and keeps the caret after the paste", () => {
+            const onChange = jest.fn()
+            render(<Search options={normalizing} normalize onChange={onChange}/>)
+            const input = getInput()
+            typeQuery(input, "hello")
+            paste(input, " owner:bob")
+            expect(input.textContent).toBe("hello author:bob")
+            expect(caretOffset(input)).toBe(16)
+            expect(onChange).toHaveBeenLastCalledWith({text: ["hello"], options: {author: {value: "bob"}}}, "hello author:bob", expect.anything())
+        })
+
+        test("doesn't rewrite while typing", () => {
+            const onNormalize = jest.fn()
+            render(<Search options={normalizing} normalize onNormalize={onNormalize}/>)
+            const input = getInput()
+            typeQuery(input, "owner:bob")
+            expect(input.textContent).toBe("owner:bob")
+            expect(onNormalize).not.toHaveBeenCalled()
+        })
+    })
+
+    test("leaves Tab alone without suggestions", () => {
+        render(<Search/>)
+        const input = getInput()
+        typeQuery(input, "hello")
+        expect(fireEvent.keyDown(input, {key: "Tab"})).toBe(true)
+    })
+
+    test("keeps line breaks and tabs of a multiline query", () => {
+        const onChange = jest.fn()
+        render(<Search options={options} multiline onChange={onChange}/>)
+        const input = getInput()
+        typeQuery(input, "a\tb\nc")
+        expect(input.textContent).toBe("a\tb\nc")
+        expect(onChange).toHaveBeenLastCalledWith({text: ["a", "b", "c"], options: {}}, "a\tb\nc", expect.anything())
+    })
+
+    test("only reports an invalid query to the form when it is required", () => {
+        const {container, rerender} = render(<form><Search options={options} name="q"/></form>)
+        typeQuery(getInput(), "stars:abc")
+        const formInput = container.querySelector("input[name=q]") as HTMLInputElement
+        expect(formInput.validity.valid).toBe(true)
+
+        rerender(<form><Search options={options} name="q" required/></form>)
+        expect(formInput.validity.customError).toBe(true)
+        expect(formInput.validationMessage).toContain("abc")
+    })
+
+    test("drops the option names while the values of the option are loading", async () => {
+        let resolve: (names: string[]) => void = () => undefined
+        const provider = jest.fn(() => new Promise<string[]>(r => resolve = r).then(names => names.map(name => ({name}))))
+        render(<Search options={[{name: "author", type: "string", suggestionProvider: provider}]} suggestionDebounce={0}/>)
+        const input = getInput()
+        typeQuery(input, "aut")
+        pressKey(input, "Tab")
+        expect(input.textContent).toBe("author:")
+        expect(screen.queryAllByRole("option")).toEqual([])
+        expect(screen.getByText("Loading…")).toBeTruthy()
+
+        // nothing to accept yet, so Tab keeps its default behaviour
+        expect(fireEvent.keyDown(input, {key: "Tab"})).toBe(true)
+        expect(input.textContent).toBe("author:")
+
+        await waitFor(() => expect(provider).toHaveBeenCalled())
+        await act(async () => resolve(["bob"]))
+        pressKey(input, "Tab")
+        expect(input.textContent).toBe("author:bob")
+    })
+
+    describe("controlled", () => {
+        function Controlled(props: {accept: (query: string) => boolean}) {
+            const [query, setQuery] = useState("hello")
+            const update = (next: string) => props.accept(next) && setQuery(next)
+            return <>
+                <Search options={options} value={query} onChange={(params, next) => update(next)} onError={(errors, next) => update(next)}/>
+                <output>{query}</output>
+            </>
+        }
+
+        test("follows every edit, including invalid queries", () => {
+            const {container} = render(<Controlled accept={() => true}/>)
+            const input = getInput()
+            expect(input.textContent).toBe("hello")
+            typeQuery(input, "stars:abc")
+            expect(container.querySelector("output")?.textContent).toBe("stars:abc")
+        })
+
+        test("applies a normalized value once", () => {
+            const normalizing: SearchOption[] = [{name: "author", type: "string", deprecatedNames: ["owner"]}]
+            const onNormalize = jest.fn()
+            const {rerender} = render(<Search options={normalizing} value="owner:bob" normalize onNormalize={onNormalize}/>)
+            const input = getInput()
+            expect(input.textContent).toBe("author:bob")
+            expect(onNormalize).toHaveBeenCalledTimes(1)
+
+            typeQuery(input, "author:bobby")
+            rerender(<Search options={normalizing} value="owner:bob" normalize onNormalize={onNormalize}/>)
+            expect(input.textContent).toBe("author:bob")
+
+            rerender(<Search options={normalizing} value="owner:carol" normalize onNormalize={onNormalize}/>)
+            expect(input.textContent).toBe("author:carol")
+            expect(onNormalize).toHaveBeenCalledTimes(3)
+        })
+
+        test("puts the value back when the parent rejects an edit", () => {
+            render(<Controlled accept={next => next.length <= 5}/>)
+            const input = getInput()
+            typeQuery(input, "hello world")
+            expect(input.textContent).toBe("hello")
+            typeQuery(input, "hi")
+            expect(input.textContent).toBe("hi")
+        })
+    })
+
+    describe("accessibility", () => {
+        test("is a combobox that owns the suggestion listbox while it is open", () => {
+            render(<Search options={options} label="Search issues"/>)
+            const input = screen.getByRole("combobox", {name: "Search issues"})
+            expect(input.getAttribute("aria-expanded")).toBe("false")
+            expect(input.hasAttribute("aria-controls")).toBe(false)
+            expect(input.hasAttribute("aria-activedescendant")).toBe(false)
+
+            typeQuery(input, "status:")
+            const listbox = screen.getByRole("listbox")
+            expect(input.getAttribute("aria-expanded")).toBe("true")
+            expect(input.getAttribute("aria-controls")).toBe(listbox.id)
+
+            const [open, closed] = screen.getAllByRole("option")
+            expect(input.getAttribute("aria-activedescendant")).toBe(open.id)
+            expect(open.getAttribute("aria-selected")).toBe("true")
+            expect(closed.getAttribute("aria-selected")).toBe("false")
+
+            pressKey(input, "ArrowDown")
+            expect(input.getAttribute("aria-activedescendant")).toBe(closed.id)
+            expect(open.getAttribute("aria-selected")).toBe("false")
+            expect(closed.getAttribute("aria-selected")).toBe("true")
+
+            pressKey(input, "Escape")
+            expect(screen.queryByRole("listbox")).toBeNull()
+            expect(input.getAttribute("aria-expanded")).toBe("false")
+            expect(input.hasAttribute("aria-activedescendant")).toBe(false)
+        })
+
+        test("has no axe violations", async () => {
+            const {container} = render(<Search options={options} label="Search issues"/>)
+            expect(await axe(container)).toHaveNoViolations()
+        })
+
+        test("has no axe violations with open suggestions and errors", async () => {
+            const {container} = render(<Search options={options} label="Search issues"/>)
+            typeQuery(getInput(), "stars:abc status:")
+            expect(screen.getAllByRole("option").length).toBeGreaterThan(0)
+            expect(await axe(container)).toHaveNoViolations()
+        })
+    })
+
+    describe("editing", () => {
+        // changes the text node of a rendered token in place, like the browser does when typing into it
+        function editToken(el: HTMLElement, index: number, content: string, caret: number) {
+            const text = (el.querySelectorAll(".token")[index] as HTMLElement).firstChild as Text
+            text.data = content
+            const range = document.createRange()
+            range.setStart(text, caret)
+            range.collapse(true)
+            const sel = window.getSelection() as Selection
+            sel.removeAllRanges()
+            sel.addRange(range)
+            act(() => {
+                fireEvent.input(el)
+            })
+        }
+
+        test("keeps the caret and the untouched spans on an edit inside a token", () => {
+            render(<Search options={options}/>)
+            const input = getInput()
+            typeQuery(input, "hello world author:bob")
+            const before = Array.from(input.querySelectorAll(".token"))
+
+            editToken(input, 2, "woXrld", 3)
+            const after = Array.from(input.querySelectorAll(".token"))
+            expect(after.map(span => span.textContent)).toEqual(["hello", " ", "woXrld", " ", "author:", "bob"])
+            expect(caretOffset(input)).toBe(9)
+            expect(after[0]).toBe(before[0])
+            expect(after[1]).toBe(before[1])
+            expect(after[3]).toBe(before[3])
+            expect(after[4]).toBe(before[4])
+            expect(after[5]).toBe(before[5])
+        })
+
+        test("leaves the DOM to the IME during a composition", () => {
+            const onChange = jest.fn()
+            render(<Search options={options} onChange={onChange}/>)
+            const input = getInput()
+            typeQuery(input, "hello ")
+            onChange.mockClear()
+
+            fireEvent.compositionStart(input)
+            const text = input.lastChild as HTMLElement
+            text.appendChild(document.createTextNode("wo"))
+            act(() => {
+                fireEvent.input(input)
+            })
+            expect(onChange).not.toHaveBeenCalled()
+            expect(input.lastChild).toBe(text)
+
+            act(() => {
+                fireEvent.compositionEnd(input)
+            })
+            expect(Array.from(input.querySelectorAll(".token")).map(span => span.textContent)).toEqual(["hello", " ", "wo"])
+            expect(onChange).toHaveBeenCalledTimes(1)
+            expect(onChange).toHaveBeenLastCalledWith({text: ["hello", "wo"], options: {}}, "hello wo", expect.anything())
+        })
+
+        test("renders CJK text composed with an IME once the composition ends", () => {
+            const onChange = jest.fn()
+            render(<Search options={[{name: "作者", type: "string"}]} messages={{unknownOption: "不明なオプション"}} onChange={onChange}/>)
+            const input = getInput()
+            typeQuery(input, "作者:")
+            onChange.mockClear()
+
+            fireEvent.compositionStart(input)
+            for (const step of ["やま", "山", "山田"]) {
+                typeQuery(input, `作者:${step}`)
+            }
+            expect(onChange).not.toHaveBeenCalled()
+            act(() => {
+                fireEvent.compositionEnd(input)
+            })
+            expect(Array.from(input.querySelectorAll(".token")).map(span => span.textContent)).toEqual(["作者:", "山田"])
+            expect(caretOffset(input)).toBe(5)
+            expect(onChange).toHaveBeenCalledTimes(1)
+            expect(onChange).toHaveBeenLastCalledWith({text: [], options: {"作者": {value: "山田"}}}, "作者:山田", expect.anything())
+
+            typeQuery(input, "作者:山田 東京:1")
+            const errors = document.getElementById(input.getAttribute("aria-describedby") as string) as HTMLElement
+            expect(errors.textContent).toContain("不明なオプション: 東京:")
+        })
+
+        test("undoes and redoes edits, coalescing quick typing", () => {
+            let now = 0
+            const dateNow = jest.spyOn(Date, "now").mockImplementation(() => now)
+            try {
+                render(<Search options={options} defaultValue=""/>)
+                const input = getInput()
+                typeQuery(input, "h")
+                now += 100
+                typeQuery(input, "he")
+                now += 100
+                typeQuery(input, "hey")
+                now += 5000
+                typeQuery(input, "hey you")
+
+                pressKey(input, "z", {ctrlKey: true})
+                expect(input.textContent).toBe("hey")
+                expect(caretOffset(input)).toBe(3)
+                pressKey(input, "z", {ctrlKey: true})
+                expect(input.textContent).toBe("")
+
+                pressKey(input, "y", {ctrlKey: true})
+                expect(input.textContent).toBe("hey")
+                pressKey(input, "Z", {ctrlKey: true, shiftKey: true})
+                expect(input.textContent).toBe("hey you")
+
+                pressKey(input, "z", {ctrlKey: true})
+                typeQuery(input, "hey there")
+                pressKey(input, "y", {ctrlKey: true})
+                expect(input.textContent).toBe("hey there")
+            } finally {
+                dateNow.mockRestore()
+            }
+        })
+    })
+
+    describe("read-only", () => {
+        test("ignores line breaks, pastes, completion and undo but still submits", () => {
+            const onSubmit = jest.fn()
+            const {rerender} = render(<Search options={options} multiline chips onSubmit={onSubmit}/>)
+            const input = getInput()
+            typeQuery(input, "status:open ")
+            rerender(<Search options={options} multiline chips readOnly onSubmit={onSubmit}/>)
+            expect(input.getAttribute("contenteditable")).toBe("false")
+
+            pressKey(input, "Enter", {shiftKey: true})
+            act(() => {
+                fireEvent.paste(input, {clipboardData: {getData: () => "pasted"}})
+            })
+            pressKey(input, "Backspace")
+            pressKey(input, " ", {ctrlKey: true})
+            pressKey(input, "Tab")
+            pressKey(input, "z", {ctrlKey: true})
+            expect(input.textContent).toBe("status:open× ")
+            expect(screen.queryByRole("listbox")).toBeNull()
+
+            pressKey(input, "Enter")
+            expect(onSubmit).toHaveBeenCalledWith({text: [], options: {status: {value: "open"}}}, "status:open ", expect.anything())
+        })
+    })
+
+    describe("chips", () => {
+        const chipOptions: SearchOption[] = [
+            {name: "status", type: "enum", options: ["open", "closed"]},
+            {name: "draft", type: "boolean"},
+        ]
+
+        function renderChips() {
+            const ref = React.createRef<SearchHandle>()
+            render(<Search ref={ref} options={chipOptions} chips/>)
+            return {input: getInput(), getQuery: () => (ref.current as SearchHandle).getQuery()}
+        }
+
+        test("shows completed values outside the caret as chips", () => {
+            const {input} = renderChips()
+            typeQuery(input, "status:open draft:ye")
+            expect(Array.from(input.querySelectorAll(".token-chip")).map(chip => chip.textContent)).toEqual(["status:open×"])
+            expect(input.querySelector(".token-chip-remove")?.getAttribute("aria-label")).toBeTruthy()
+
+            typeQuery(input, "status:open draft:yes", 3)
+            expect(Array.from(input.querySelectorAll(".token-chip")).map(chip => chip.textContent)).toEqual(["draft:yes×"])
+        })
+
+        test("removes a chip with its button and with Backspace after it", () => {
+            const {input, getQuery} = renderChips()
+            typeQuery(input, "status:open draft:yes hello")
+            act(() => {
+                fireEvent.click(input.querySelectorAll(".token-chip-remove")[1])
+            })
+            expect(getQuery()).toBe("status:open hello")
+
+            typeQuery(input, "status:open ")
+            pressKey(input, "Backspace")
+            expect(getQuery()).toBe("")
+            pressKey(input, "z", {ctrlKey: true})
+            expect(getQuery()).toBe("status:open ")
+        })
+
+        test("leaves Backspace alone away from a chip", () => {
+            const {input, getQuery} = renderChips()
+            typeQuery(input, "status:open hello")
+            expect(fireEvent.keyDown(input, {key: "Backspace"})).toBe(true)
+            expect(getQuery()).toBe("status:open hello")
+        })
+
+        test("picks an enum value with the keyboard and undoes it", () => {
+            const {input, getQuery} = renderChips()
+            typeQuery(input, "status:open ")
+            act(() => {
+                fireEvent.click(input.querySelector(".token-chip") as HTMLElement)
+            })
+            const picker = screen.getByRole("listbox", {name: "status"})
+            expect(document.activeElement).toBe(picker)
+            expect(input.getAttribute("aria-controls")).toBe(picker.id)
+            const [open, closed] = screen.getAllByRole("option")
+            expect(picker.getAttribute("aria-activedescendant")).toBe(open.id)
+
+            fireEvent.keyDown(picker, {key: "ArrowDown"})
+            expect(picker.getAttribute("aria-activedescendant")).toBe(closed.id)
+            act(() => {
+                fireEvent.keyDown(picker, {key: "Enter"})
+            })
+            expect(getQuery()).toBe("status:closed ")
+            expect(screen.queryByRole("listbox")).toBeNull()
+            expect(document.activeElement).toBe(input)
+
+            pressKey(input, "z", {ctrlKey: true})
+            expect(getQuery()).toBe("status:open ")
+            pressKey(input, "y", {ctrlKey: true})
+            expect(getQuery()).toBe("status:closed ")
+        })
+
+        test("closes the enum picker with Escape and when it loses the focus", () => {
+            const {input, getQuery} = renderChips()
+            typeQuery(input, "status:open ")
+            act(() => {
+                fireEvent.click(input.querySelector(".token-chip") as HTMLElement)
+            })
+            act(() => {
+                fireEvent.keyDown(screen.getByRole("listbox"), {key: "Escape"})
+            })
+            expect(screen.queryByRole("listbox")).toBeNull()
+            expect(document.activeElement).toBe(input)
+
+            act(() => {
+                fireEvent.click(input.querySelector(".token-chip") as HTMLElement)
+            })
+            act(() => {
+                fireEvent.blur(screen.getByRole("listbox"))
+            })
+            expect(screen.queryByRole("listbox")).toBeNull()
+            expect(getQuery()).toBe("status:open ")
+        })
+
+        test("undoes a boolean toggle", () => {
+            const {input, getQuery} = renderChips()
+            typeQuery(input, "draft:yes ")
+            act(() => {
+                fireEvent.click(input.querySelector(".token-chip .token") as HTMLElement)
+            })
+            expect(getQuery()).toBe("draft:no ")
+            pressKey(input, "z", {ctrlKey: true})
+            expect(getQuery()).toBe("draft:yes ")
+        })
+    })
+
+    describe("history", () => {
+        test("records submitted queries without errors and lists them for an empty input", () => {
+            const storage = createMemoryHistoryStorage()
+            render(<Search options={options} historyStorage={storage} historySize={2}/>)
+            const input = getInput()
+            for (const query of ["first", "stars:abc", "second", "third"]) {
+                typeQuery(input, query)
+                pressKey(input, "Enter")
+            }
+            expect(storage.load().recent).toEqual(["third", "second"])
+
+            typeQuery(input, "")
+            expect(screen.getAllByRole("option").map(option => option.textContent)).toEqual(["thirdrecent search", "secondrecent search"])
+            pressKey(input, "ArrowDown")
+            pressKey(input, "Tab")
+            expect(input.textContent).toBe("second")
+            expect(caretOffset(input)).toBe(6)
+        })
+
+        test("saves and removes named searches through the handle", () => {
+            const ref = React.createRef<SearchHandle>()
+            const storage = createMemoryHistoryStorage({recent: ["old"], saved: []})
+            render(<Search ref={ref} options={options} historyStorage={storage}/>)
+            const input = getInput()
+            typeQuery(input, "status:open")
+            act(() => {
+                ref.current?.saveSearch("Open issues")
+            })
+            expect(storage.load().saved).toEqual([{name: "Open issues", query: "status:open"}])
+
+            typeQuery(input, "")
+            expect(screen.getAllByRole("option").map(option => option.textContent)).toEqual(["Open issuesstatus:open", "oldrecent search"])
+            act(() => {
+                fireEvent.click(screen.getAllByRole("option")[0])
+            })
+            expect(input.textContent).toBe("status:open")
+
+            act(() => {
+                ref.current?.removeSavedSearch("Open issues")
+            })
+            expect(storage.load().saved).toEqual([])
+        })
+    })
+})
@@ -1,405 +1,637 @@
-import React, {HTMLAttributes, PropsWithChildren, ReactNode, useEffect, useRef, useState} from "react";
+import React, {CSSProperties, forwardRef, HTMLAttributes, PropsWithChildren, ReactElement, ReactNode, RefAttributes, useEffect, useImperativeHandle, useRef, useState} from "react";
+import {fuzzyMatch} from "./fuzzy";
+import {addRecentQuery, addSavedSearch, removeSavedSearch, SearchHistory, SearchHistoryStorage} from "./history";
+import {booleanWords, CompletionContext, completionContext, conflictingOptions, formatValue, normalizeQuery, parse, ParseError, ParseMessages, ParseResult, ParseSettings, QueryNode, QueryRewrite, quoteValue, SearchOption, SearchParams, Suggestion, SuggestionProvider, Token, TokenType} from "./parser";
+
+export {booleanWords, completionContext, conflictingOptions, defaultParseMessages, formatValue, normalizeQuery, parse, parseDate, stringify} from "./parser";
+export {fuzzyMatch} from "./fuzzy";
+export type {FuzzyMatch} from "./fuzzy";
+export {createLocalStorageHistoryStorage, createMemoryHistoryStorage} from "./history";
+export type {SavedSearch, SearchHistory, SearchHistoryStorage} from "./history";
+export {fromURLSearchParams, toElasticsearch, toSql, toURLSearchParams} from "./adapters";
+export type {ElasticsearchQuery, ElasticsearchSettings, SqlQuery, SqlSettings, URLSearchParamsSettings} from "./adapters";
+export {createMatcher, filterRecords} from "./matcher";
+export type {Matcher, MatcherSettings} from "./matcher";
+export {optionsFromFields, optionsFromJSONSchema} from "./schema";
+export type {FieldDefinition, FieldOptions, JSONSchema} from "./schema";
+export type {CompletionContext, FieldAccessor, NormalizedQuery, OptionValue, ParseError, ParseErrorCode, ParseMessages, ParseResult, ParseSettings, QueryNode, QueryRewrite, SearchOption, SearchParams, Suggestion, SuggestionContext, SuggestionProvider, Token, TokenList, TokenType, ValueRange} from "./parser";
+
+
+// O narrows the params passed to onChange and onSubmit to the given options, see optionsFromFields
+export interface SearchProps<O extends SearchOption = SearchOption> {
+    onChange?: (data: SearchParams<O>, query: string, tree: QueryNode | null) => void
+    // called instead of onChange while the query has errors, so a controlled value can follow every edit
+    onError?: (errors: ParseError[], query: string) => void
+    // called on Enter when the query has no errors
+    onSubmit?: (data: SearchParams<O>, query: string, tree: QueryNode | null) => void
+    keyBindings?: Partial<KeyBindings>
+    options?: O[]
+    // called when a pasted or programmatically set query uses deprecated option names or enum value aliases
+    onNormalize?: (rewrites: QueryRewrite[], normalized: string) => void
+    // replaces such queries with their normalized form instead of only reporting it
+    normalize?: boolean
+    // form integration: the query is submitted under name, the params as JSON under paramsName while the query is valid
+    name?: string
+    paramsName?: string
+    // a query with errors fails form validation as well, not only an empty one
+    required?: boolean
+    disabled?: boolean
+    readOnly?: boolean
+    placeholder?: string
+    maxLength?: number
+    // lets the newline key binding insert line breaks, which the parser treats like spaces
+    multiline?: boolean
+    // shows completed name:value pairs as chips that can be removed and clicked to change their value
+    chips?: boolean
+    // accessible name of the input, use labelledBy to point at a visible label element instead
+    label?: string
+    labelledBy?: string
+    renderSuggestion?: (props: SuggestionRenderProps) => ReactNode
+    renderPopup?: (props: PopupRenderProps) => ReactNode
+    // extra class names for a token span, next to the built-in token-* ones
+    tokenClassName?: (token: Token, errors: ParseError[]) => string | undefined
+    // content of the tooltip shown for the token under the caret or mouse, by default only tokens with errors get one
+    renderTokenTooltip?: (token: Token, errors: ParseError[]) => ReactNode
+    grammar?: ParseSettings["grammar"]
+    // translations of the component's and the parser's texts
+    messages?: Partial<SearchMessages & ParseMessages>
+    // accepted by every boolean option next to its own words, e.g. ["ja"] and ["nein"]
+    trueWords?: string[]
+    falseWords?: string[]
+    // milliseconds to wait for typing to pause before calling a suggestion provider
+    suggestionDebounce?: number
+    onSuggestionError?: (error: unknown, option: SearchOption) => void
+    // the autocomplete popup shows at most this many entries, 10 by default
+    maxSuggestions?: number
+    // keeps recent queries that parsed without errors and saved searches, shown when the input is empty
+    historyStorage?: SearchHistoryStorage
+    // number of recent queries to keep, 10 by default
+    historySize?: number
+    value?: string
+    defaultValue?: string
+}
 
+const tokenClassNameMap: { [type in TokenType]: string } = {
+    "space": "token-space",
+    "text": "token-text",
+    "number": "token-numeric",
+    "enum": "token-enum",
+    "option-name": "token-option-name",
+    "invalid-option-name": "token-invalid-option-name",
+    "escape-sequence": "token-escape-sequence",
+    "invalid-escape-sequence": "token-invalid-escape-sequence",
+    "missing-quote": "token-missing-quote",
+    "missing-option-value": "token-missing-option-value",
+    "invalid": "token-invalid-character",
+    "date": "token-date",
+    "range-operator": "token-range-operator",
+    "comparison-operator": "token-comparison-operator",
+    "operator": "token-operator",
+    "bracket": "token-bracket",
+}
 
-interface SearchOptionBase {
-    name: string
-    multiple?: boolean
-    title?: string
-    description?: string | ReactNode
+// texts of the component itself, the parser's error messages are part of ParseMessages
+export interface SearchMessages {
+    loading: string
+    noSuggestions: string
+    suggestionsFailed: string
+    recentSearch: string
+    removeChip: (text: string) => string
+    numberHint: (min: number | undefined, max: number | undefined, integer: boolean) => string
+    textHint: (minLength: number | undefined, maxLength: number | undefined, pattern: string | undefined) => string
+    // suggested for date values; the names are parser keywords, so only the descriptions should be translated
+    dateHints: Suggestion[]
 }
 
-interface Suggestion {
-    name: string
-    description?: string
+function bounds(min: number | undefined, max: number | undefined) {
+    if (min !== undefined && max !== undefined) {
+        return `between ${min} and ${max}`
+    } else if (min !== undefined) {
+        return `at least ${min}`
+    } else if (max !== undefined) {
+        return `at most ${max}`
+    }
+    return null
 }
 
-type SuggestionProvider = (input: string) => Promise<Suggestion[]> | Suggestion[]
+export const defaultSearchMessages: SearchMessages = {
+    loading: "Loading…",
+    noSuggestions: "No suggestions",
+    suggestionsFailed: "Suggestions could not be loaded",
+    recentSearch: "recent search",
+    removeChip: text => `remove ${text}`,
+    numberHint: (min, max, integer) => [integer ? "whole number" : "number", bounds(min, max)].filter(Boolean).join(' '),
+    textHint: (minLength, maxLength, pattern) => {
+        const length = bounds(minLength, maxLength)
+        return [length && `${length} characters`, pattern !== undefined && `matching ${pattern}`].filter(Boolean).join(', ')
+    },
+    dateHints: [
+        {name: "today", description: "since midnight"},
+        {name: "yesterday", description: "since midnight yesterday"},
+        {name: "7d", description: "7 days ago"},
+        {name: "30d", description: "30 days ago"},
+        {name: "1y", description: "1 year ago"},
+    ],
+}
 
-type SearchOption =
-    | { type: "number", default?: number | null, suggestionProvider?: SuggestionProvider } & SearchOptionBase
-    | { type: "string", default?: string | null, suggestionProvider?: SuggestionProvider } & SearchOptionBase
-    | { type: "enum", default?: string | null, options: string[] } & SearchOptionBase
-    | { type: "boolean", default?: boolean | null } & SearchOptionBase
 
+interface AutocompleteEntry extends Suggestion {
+    // indices of the characters in the displayed label (the name without one) that matched the input
+    matches?: number[]
+    // the same for the name, which is shown next to a label
+    nameMatches?: number[]
+    // selecting the entry replaces the whole query with this one
+    query?: string
+}
 
-export interface SearchProps {
-    onChange?: (data: SearchParams) => void
-    onError?: (error: ParseError) => void
-    options?: SearchOption[]
+interface RankCandidate {
+    entry: AutocompleteEntry
+    // text the input is matched against, with a weight
+    keywords: [string, number][]
 }
 
-const Space = Symbol("space")
-const Text = Symbol("text")
-const Numeric = Symbol("number")
-const Enum = Symbol("enum")
-const OptionName = Symbol("option name")
-const InvalidOptionName = Symbol("invalid option name")
-const EscapeSequence = Symbol("escape sequence")
-const InvalidEscapeSequence = Symbol("invalid escape sequence")
-const MissingQuote = Symbol("missing quote")
-const MissingOptionValue = Symbol("missing option value")
-const Invalid = Symbol("invalid")
+function rankEntries(input: string, candidates: RankCandidate[], limit: number): AutocompleteEntry[] {
+    const ranked: { entry: AutocompleteEntry, score: number }[] = []
+    for (const {entry, keywords} of candidates) {
+        let score: number | null = null
+        for (const [keyword, weight] of keywords) {
+            const match = fuzzyMatch(input, keyword)
+            if (match !== null && (score === null || match.score * weight > score)) {
+                score = match.score * weight
+            }
+        }
+        if (score !== null) {
+            const matches = fuzzyMatch(input, entry.label ?? entry.name)?.positions
+            ranked.push({entry: entry.label === undefined ? {...entry, matches} : {...entry, matches, nameMatches: fuzzyMatch(input, entry.name)?.positions}, score})
+        }
+    }
+    // Array.prototype.sort is stable, so equally good entries keep their configured order
+    return ranked.sort((a, b) => b.score - a.score).slice(0, limit).map(({entry}) => entry)
+}
 
-type TokenType =
-    | typeof Space
-    | typeof Text
-    | typeof Numeric
-    | typeof Enum
-    | typeof OptionName
-    | typeof InvalidOptionName
-    | typeof EscapeSequence
-    | typeof InvalidEscapeSequence
-    | typeof MissingQuote
-    | typeof MissingOptionValue
-    | typeof Invalid
-    ;
+function highlightMatches(text: string, matches: number[] = []) {
+    const parts: ReactNode[] = []
+    let plain = ''
+    for (let i = 0; i < text.length; i++) {
+        if (matches.includes(i)) {
+            if (plain.length > 0) {
+                parts.push(plain)
+                plain = ''
+            }
+            parts.push(<mark key={i}>{text[i]}</mark>)
+        } else {
+            plain += text[i]
+        }
+    }
+    if (plain.length > 0) {
+        parts.push(plain)
+    }
+    return parts
+}
 
-interface Token {
-    type: TokenType
-    content: string
-    suggest: "none" | "options" | SearchOption
+// keeps the order of first appearance for groups and for entries within a group
+function groupEntries(entries: AutocompleteEntry[]): AutocompleteEntry[] {
+    const groups: string[] = []
+    for (const entry of entries) {
+        if (!groups.includes(entry.group ?? '')) {
+            groups.push(entry.group ?? '')
+        }
+    }
+    return groups.flatMap(group => entries.filter(entry => (entry.group ?? '') === group))
 }
 
-type TokenList = Token[]
+function optionId(listboxId: string, index: number) {
+    return `${listboxId}-option-${index}`
+}
 
-interface SearchParams {
-    text: string[]
-    options: {
-        [key: string]: { value: any } | { values: any[] }
-    }
+export interface SuggestionRenderProps {
+    suggestion: Suggestion
+    selected: boolean
+    // the label, or the name without one, with the characters matching the input highlighted
+    label: ReactNode
 }
 
-interface ParseResult {
-    tokens: TokenList
-    error: ParseError | null
-    result: SearchParams | null
+interface AutoCompleteEntryProps {
+    id: string
+    entry: AutocompleteEntry
+    selected: boolean
+    onHover: () => void
+    onClick: () => void
+    renderSuggestion?: (props: SuggestionRenderProps) => ReactNode
 }
 
-interface ParseError {
-    position: number
-    text: string
+function AutoCompleteEntry(props: AutoCompleteEntryProps) {
+    const {entry} = props
+    const label = highlightMatches(entry.label ?? entry.name, entry.matches)
+    return <div id={props.id} role="option" aria-selected={props.selected} className={props.selected ? 'selected' : ''} onMouseOver={props.onHover} onClick={props.onClick}>
+        {
+            props.renderSuggestion
+                ? props.renderSuggestion({suggestion: entry, selected: props.selected, label})
+                : <>
+                    {entry.icon !== undefined && <div className="autocomplete-icon">{entry.icon as ReactNode}</div>}
+                    <div>
+                        {label}
+                        {entry.label !== undefined && <span className="autocomplete-name">{highlightMatches(entry.name, entry.nameMatches)}</span>}
+                    </div>
+                    <div>{entry.description}</div>
+                </>
+        }
+    </div>
 }
 
+export type AutocompleteStatus = "ready" | "loading" | "empty" | "error"
 
-const escapeSequences: { [key: string]: string } = {
-    n: "\n",
-    '"': '"',
-    '\\': "\\",
-} as const
+interface AutoCompleteProps {
+    onSelect: (idx: number) => void
+    onHover: (idx: number) => void
+    entries: AutocompleteEntry[]
+    anchor: HTMLElement
+    selected: number
+    status: AutocompleteStatus
+    hint?: string
+    messages: SearchMessages
+    id: string
+    label?: string
+    renderSuggestion?: (props: SuggestionRenderProps) => ReactNode
+    renderPopup?: (props: PopupRenderProps) => ReactNode
+}
 
-function parse(str: string, config: SearchOption[]): ParseResult {
-    const tokens: TokenList = []
-    const result: SearchParams = {
-        text: [],
-        options: {}
-    }
+export interface PopupRenderProps {
+    // positions the popup below the token it completes
+    style: CSSProperties
+    status: AutocompleteStatus
+    // the constraints of the option whose value is completed, e.g. "whole number between 1 and 5"
+    hint?: string
+    suggestions: Suggestion[]
+    listbox: ReactNode
+    statusMessage: ReactNode
+}
+
+function AutoComplete(props: AutoCompleteProps ) {
+    const [leftPos, setLeftPos] = useState(0)
+    useEffect(() => {
+        setLeftPos(props.anchor.offsetLeft - (props.anchor.parentElement as HTMLElement).offsetLeft)
+    })
 
-    const options: {
-        [key: string]: SearchOption
-    } = {}
-    for (const option of config) {
-        options[option.name] = option
+    const listbox = <div role="listbox" id={props.id} aria-label={props.label}>
+        {props.entries.map((entry, index) => <React.Fragment key={index}>
+            {
+                entry.group !== undefined && entry.group !== props.entries[index - 1]?.group &&
+                <div role="presentation" className="autocomplete-group">{entry.group}</div>
+            }
+            <AutoCompleteEntry id={optionId(props.id, index)} entry={entry} selected={index === props.selected} renderSuggestion={props.renderSuggestion}
+                               onHover={() => props.onHover(index)} onClick={() => props.onSelect(index)}/>
+        </React.Fragment>)}
+    </div>
+    const statusMessage = <div role="status">
+        {props.status === "loading" && <div className="autocomplete-status autocomplete-loading">{props.messages.loading}</div>}
+        {props.status === "empty" && <div className="autocomplete-status autocomplete-empty">{props.messages.noSuggestions}</div>}
+        {props.status === "error" && <div className="autocomplete-status autocomplete-error">{props.messages.suggestionsFailed}</div>}
+    </div>
+    const style: CSSProperties = {position: "absolute", left: leftPos}
+
+    if (props.renderPopup) {
+        return <>{props.renderPopup({style, status: props.status, hint: props.hint, suggestions: props.entries, listbox, statusMessage})}</>
     }
+    return <div style={style} className="autocomplete-container">
+        {props.hint !== undefined && <div className="autocomplete-hint">{props.hint}</div>}
+        {listbox}
+        {statusMessage}
+    </div>
+}
 
-    let error: ParseError | null = null
 
-    let currentTokenText = ""
-    let currentValue = ""
-    let inQuotes = false
-    let escaped = false
-    let inOptionValue = false
-    let currentOption: SearchOption | null = null
+// describes the constraints of number and string options for the autocomplete
+function constraintHint(option: SearchOption, messages: SearchMessages): string | undefined {
+    if (option.type === "number" && (option.integer || option.min !== undefined || option.max !== undefined)) {
+        return messages.numberHint(option.min, option.max, !!option.integer)
+    } else if (option.type === "string" && (option.minLength !== undefined || option.maxLength !== undefined || option.pattern !== undefined)) {
+        return messages.textHint(option.minLength, option.maxLength, option.pattern === undefined ? undefined : String(option.pattern))
+    }
+    return undefined
+}
 
 
-    function completeOptionValue() {
-        if (currentOption === null) {
-            throw new Error('logic error')
-        }
+interface ChipEditorProps {
+    id: string
+    option: SearchOption
+    value: string
+    anchor: HTMLElement
+    onApply: (value: string) => void
+    // returnFocus is false when the editor closes because the focus moved elsewhere
+    onClose: (returnFocus: boolean) => void
+}
 
-        if (currentValue.length === 0) {
-            completeToken(MissingOptionValue)
-        } else {
-            let value: any
-            let invalidValue = false
-            switch (currentOption.type) {
-                case "boolean":
-                    if (currentValue === "yes") {
-                        value = true
-                        completeToken(Enum)
-                    } else if (currentValue === "no") {
-                        value = false
-                        completeToken(Enum)
-                    } else {
-                        invalidValue = true
-                        completeToken(Invalid)
-                    }
-                    break;
-                case "string":
-                    value = currentValue
-                    completeToken(Text)
-                    break;
-                case "number":
-                    value = Number(currentValue)
-                    if (isNaN(value)) {
-                        invalidValue = true
-                        completeToken(Invalid)
-                    } else {
-                        completeToken(Numeric)
-                    }
-                    break;
-                case "enum":
-                    if (currentOption.options.includes(currentValue)) {
-                        value = currentValue
-                        completeToken(Enum)
-                    } else {
-                        invalidValue = true
-                        completeToken(Invalid)
-                    }
-            }
-            currentValue = ''
-            if (!invalidValue) {
-                if (currentOption.multiple) {
-                    if (!result.options.hasOwnProperty(currentOption.name)) {
-                        result.options[currentOption.name] = {values: []}
-                    }
-                    (result.options[currentOption.name] as { values: any[] }).values.push(value)
-                } else {
-                    result.options[currentOption.name] = {value}
-                }
+function ChipEditor(props: ChipEditorProps) {
+    const [leftPos, setLeftPos] = useState(0)
+    const [draft, setDraft] = useState(props.value)
+    const values = props.option.type === "enum" ? props.option.options : []
+    const [active, setActive] = useState(Math.max(0, values.indexOf(props.value)))
+    const listboxRef = useRef<HTMLDivElement | null>(null)
+    useEffect(() => {
+        setLeftPos(props.anchor.offsetLeft - (props.anchor.parentElement as HTMLElement).offsetLeft)
+    })
+    useEffect(() => {
+        listboxRef.current?.focus()
+    }, [])
+
+    const style: CSSProperties = {position: "absolute", left: leftPos}
+    if (props.option.type === "enum") {
+        const {labels = {}} = props.option
+        // the listbox takes the focus, so it can be used with the keyboard and closes when the focus moves elsewhere
+        const handleKeyDown = (e: React.KeyboardEvent) => {
+            const moves: { [key: string]: number } = {ArrowUp: active - 1, ArrowDown: active + 1, Home: 0, End: values.length - 1}
+            if (moves.hasOwnProperty(e.key)) {
+                e.preventDefault()
+                setActive(Math.max(0, Math.min(moves[e.key], values.length - 1)))
+            } else if (e.key === "Enter" || e.key === " ") {
+                e.preventDefault()
+                props.onApply(values[active])
+            } else if (e.key === "Escape" || e.key === "Tab") {
+                e.preventDefault()
+                props.onClose(true)
             }
         }
-        currentOption = null
-        inOptionValue = false
+        return <div style={style} className="chip-editor" role="listbox" id={props.id} ref={listboxRef} tabIndex={-1}
+                    aria-label={props.option.title ?? props.option.name} aria-activedescendant={optionId(props.id, active)}
+                    onKeyDown={handleKeyDown} onBlur={() => props.onClose(false)}>
+            {values.map((option, index) =>
+                // mousedown would move the focus away from the listbox and close it before the click
+                <div key={option} id={optionId(props.id, index)} role="option" aria-selected={option === props.value}
+                     className={[option === props.value && 'selected', index === active && 'active'].filter(Boolean).join(' ')}
+                     onMouseDown={e => e.preventDefault()} onMouseOver={() => setActive(index)}
+                     onClick={() => props.onApply(option)}>{labels[option] ?? option}</div>)}
+        </div>
     }
+    return <form style={style} className="chip-editor" onSubmit={e => {
+        e.preventDefault()
+        props.onApply(draft)
+    }}>
+        <input type={props.option.type === "number" ? "number" : "text"} value={draft} autoFocus aria-label={props.option.title ?? props.option.name}
+               onChange={e => setDraft(e.target.value)} onBlur={() => props.onClose(false)} onKeyDown={e => e.key === "Escape" && props.onClose(true)}/>
+    </form>
+}
 
-    function completeToken(type: TokenType) {
-        let suggest: "none" | "options" | SearchOption
-        if (inOptionValue || type === MissingOptionValue) {
-            suggest = currentOption as SearchOption
-        } else if (type === Text || type === Space) {
-            suggest = "options"
-        } else {
-            suggest = "none"
+
+interface ErrorTooltipProps {
+    token: Token
+    errors: ParseError[]
+    anchor: HTMLElement
+}
+
+function ErrorTooltip(props: PropsWithChildren<ErrorTooltipProps>) {
+    const [leftPos, setLeftPos] = useState(0)
+    useEffect(() => {
+        setLeftPos(props.anchor.offsetLeft - (props.anchor.parentElement as HTMLElement).offsetLeft)
+    })
+
+    return <div style={{position: "absolute", left: leftPos, bottom: "100%"}} className="error-tooltip-container" role="tooltip">
+        {props.children ?? props.errors.map((error, index) => <div key={index} className={`error-tooltip-${error.severity}`}>{error.message}</div>)}
+    </div>
+}
+
+
+export type KeyAction = "submit" | "dismiss" | "accept" | "previous" | "next" | "pageUp" | "pageDown" | "first" | "last" | "open" | "undo" | "redo" | "newline"
+
+// key combinations are written as modifiers and the key joined by +, e.g. "Ctrl+Space" or "Shift+Enter"
+export type KeyBindings = { [action in KeyAction]: string[] }
+
+export const defaultKeyBindings: KeyBindings = {
+    submit: ["Enter"],
+    dismiss: ["Escape"],
+    accept: ["Tab"],
+    previous: ["ArrowUp"],
+    next: ["ArrowDown"],
+    pageUp: ["PageUp"],
+    pageDown: ["PageDown"],
+    first: ["Home"],
+    last: ["End"],
+    open: ["Ctrl+Space"],
+    undo: ["Ctrl+z", "Meta+z"],
+    redo: ["Ctrl+y", "Ctrl+Shift+Z", "Meta+Shift+Z"],
+    newline: ["Shift+Enter"],
+}
+
+const suggestionPageSize = 5
+
+// the actions that don't change the query, the only ones left when the input is read-only or disabled
+const readOnlyKeyActions: KeyAction[] = ["submit", "dismiss", "previous", "next", "pageUp", "pageDown", "first", "last"]
+
+function keyCombination(e: KeyboardEvent) {
+    const modifiers = [e.ctrlKey && "Ctrl", e.altKey && "Alt", e.shiftKey && "Shift", e.metaKey && "Meta"].filter(Boolean)
+    return [...modifiers, e.key === " " ? "Space" : e.key].join("+")
+}
+
+interface AutocompleteState {
+    entries: AutocompleteEntry[]
+    anchor: HTMLElement
+    // null while the popup lists recent and saved searches for an empty input
+    context: CompletionContext | null
+    selection: number
+    status: AutocompleteStatus
+    hint?: string
+}
+
+function delay(ms: number, signal: AbortSignal) {
+    return new Promise<void>((resolve, reject) => {
+        if (ms <= 0) {
+            resolve()
+            return
         }
-        tokens.push({
-            type,
-            content: currentTokenText,
-            suggest: suggest
+        const timeout = setTimeout(resolve, ms)
+        signal.addEventListener('abort', () => {
+            clearTimeout(timeout)
+            reject(new Error('aborted'))
         })
-        currentTokenText = ""
-    }
+    })
+}
 
+export interface SearchHandle {
+    focus: () => void
+    clear: () => void
+    getQuery: () => string
+    setQuery: (query: string) => void
+    getParams: () => SearchParams | null
+    getQueryTree: () => QueryNode | null
+    // pins the current query under the given name, replacing a saved search with the same name
+    saveSearch: (name: string) => void
+    removeSavedSearch: (name: string) => void
+}
 
-    function parseError(position: number, text: string) {
-        if (error === null) {
-            error = {position, text}
-        }
+interface CaretRange {
+    start: number
+    end: number
+}
+
+// text of the query held by a node, leaving out interface elements such as the chip remove buttons
+function queryTextOf(node: Node): string {
+    if (node instanceof HTMLElement && node.dataset.searchUi !== undefined) {
+        return ''
+    }
+    if (node.nodeType === Node.TEXT_NODE) {
+        return node.textContent ?? ''
     }
+    let text = ''
+    node.childNodes.forEach(child => {
+        text += queryTextOf(child)
+    })
+    return text
+}
 
-    for (let i = 0; i < str.length; i++) {
-        const currentChar = str[i]
-        if (inQuotes) {
-            if (escaped) {
-                currentTokenText += currentChar
-                if (currentChar in escapeSequences) {
-                    currentValue += escapeSequences[currentChar]
-                    completeToken(EscapeSequence)
-                } else {
-                    parseError(i, "invalid escape sequence")
-                    completeToken(InvalidEscapeSequence)
-                }
-                currentTokenText = ""
-                escaped = false
-            } else {
-                if (currentChar === '"') {
-                    currentTokenText += '"'
-                    if (inOptionValue) {
-                        completeOptionValue()
-                    } else {
-                        completeToken(Text)
-                        result.text.push(currentValue)
-                        currentValue = ""
-                    }
-                    inQuotes = false
-                } else if (currentChar === '\\') {
-                    completeToken(Text)
-                    currentTokenText = "\\"
-                    escaped = true
-                } else {
-                    currentTokenText += currentChar
-                    currentValue += currentChar
-                }
-            }
-        } else {
-            if (inOptionValue) {
-                if (currentChar === '"') {
-                    if (currentTokenText.length === 0) {
-                        inQuotes = true
-                        currentTokenText = '"'
-                    } else {
-                        parseError(i, "unexpected quotation mark")
-                        completeOptionValue()
-                        currentTokenText = '"'
-                        completeToken(Invalid)
-                    }
-                } else if (/\s/.test(currentChar)) {
-                    completeOptionValue()
-                    currentTokenText = ' '
-                    completeToken(Space)
-                } else if (currentChar === '\\') {
-                    parseError(i, "unexpected escape character")
-                    completeOptionValue()
-                    currentTokenText = '\\'
-                    completeToken(Invalid)
-                } else if (currentChar === ':') {
-                    parseError(i, "unexpected colon character")
-                    completeOptionValue()
-                    currentTokenText = ":"
-                    completeToken(Invalid)
-                } else {
-                    currentTokenText += currentChar
-                    currentValue += currentChar
-                }
-            } else {
-                if (/\s/.test(currentChar)) {
-                    if (currentTokenText.length > 0) {
-                        completeToken(Text)
-                        result.text.push(currentValue)
-                    }
-                    currentTokenText = ' '
-                    completeToken(Space)
-                    currentValue = ''
-                } else if (currentChar === '"') {
-                    if (currentTokenText.length === 0) {
-                        inQuotes = true
-                        currentTokenText = '"'
-                    } else {
-                        parseError(i, "unexpected quotation mark")
-                        completeToken(Text)
-                        currentTokenText = '"'
-                        completeToken(Invalid)
-                    }
-                } else if (currentChar === '\\') {
-                    parseError(i, "unexpected escape character")
-                    currentTokenText = '\\'
-                    completeToken(Invalid)
-                } else if (currentChar === ':') {
-                    currentTokenText += ':'
-                    if (currentValue.length === 0) {
-                        parseError(i, "unexpected colon character")
-                        completeToken(Invalid)
-                    } else {
-                        if (options.hasOwnProperty(currentValue)) {
-                            if (!options[currentValue].multiple && result.options.hasOwnProperty(currentValue)) {
-                                completeToken(InvalidOptionName)
-                                parseError(i, "illegally repeated option")
-                            } else {
-                                completeToken(OptionName)
-                                currentOption = options[currentValue]
-                                inOptionValue = true
-                            }
-                        } else {
-                            completeToken(InvalidOptionName)
-                            parseError(i, "unknown option")
-                        }
-                        currentValue = ''
-                    }
-                } else {
-                    currentTokenText += currentChar
-                    currentValue += currentChar
-                }
-            }
+function getCaretRange(el: HTMLElement): CaretRange {
+    const sel = window.getSelection() as Selection
+    function offsetOf(node: Node | null, offset: number) {
+        if (node === null || !el.contains(node)) {
+            return -1
         }
+        const range = document.createRange()
+        range.setStart(el, 0)
+        range.setEnd(node, offset)
+        return queryTextOf(range.cloneContents()).length
     }
+    let anchorPos = offsetOf(sel.anchorNode, sel.anchorOffset)
+    let focusPos = offsetOf(sel.focusNode, sel.focusOffset)
+    if (anchorPos === -1 || focusPos === -1) {
+        anchorPos = focusPos = queryTextOf(el).length
+    }
+    return {
+        start: Math.min(anchorPos, focusPos),
+        end: Math.max(anchorPos, focusPos),
+    }
+}
 
-    if (inQuotes) {
-        completeToken(Text)
-        if (inOptionValue) {
-            completeOptionValue()
-        } else {
-            result.text.push(currentValue)
-        }
-        parseError(str.length, "missing quotation mark")
-        completeToken(MissingQuote)
-    } else if (inOptionValue) {
-        completeOptionValue()
-    } else {
-        if (currentValue.length > 0) {
-            result.text.push(currentValue)
-            completeToken(Text)
-        }
+interface UndoEntry {
+    query: string
+    caret: CaretRange | null
+}
+
+// brings the children of el in line with nodes, keeping the existing nodes at the start and the end that are
+// unchanged so the browser keeps the IME and selection state it has for them; returns tokenElements mapped
+// to the nodes that ended up in the DOM
+function patchChildren(el: HTMLElement, nodes: HTMLElement[], tokenElements: HTMLElement[]): HTMLElement[] {
+    const current = Array.from(el.childNodes)
+    let prefix = 0
+    while (prefix < current.length && prefix < nodes.length && current[prefix].isEqualNode(nodes[prefix])) {
+        prefix++
+    }
+    let suffix = 0
+    while (suffix < current.length - prefix && suffix < nodes.length - prefix
+    && current[current.length - 1 - suffix].isEqualNode(nodes[nodes.length - 1 - suffix])) {
+        suffix++
     }
 
-    return {
-        tokens,
-        error: error,
-        // result: error !== null ? null : result,
-        result,
-    }
-}
-
-
-const tokenClassNameMap = {
-    [Space]: "token-space",
-    [Text]: "token-text",
-    [Numeric]: "token-numeric",
-    [Enum]: "token-enum",
-    [OptionName]: "token-option-name",
-    [InvalidOptionName]: "token-invalid-option-name",
-    [EscapeSequence]: "token-escape-sequence",
-    [InvalidEscapeSequence]: "token-invalid-escape-sequence",
-    [MissingQuote]: "token-missing-quote",
-    [MissingOptionValue]: "token-missing-option-value",
-    [Invalid]: "token-invalid-character",
-} as const
+    const mapped = tokenElements.slice()
+    function reuse(node: HTMLElement, existing: HTMLElement) {
+        const spans = (node: HTMLElement) => node.classList.contains('token') ? [node] : Array.from(node.querySelectorAll<HTMLElement>('.token'))
+        const existingSpans = spans(existing)
+        spans(node).forEach((span, index) => {
+            mapped[mapped.indexOf(span)] = existingSpans[index]
+        })
+    }
+    for (let i = 0; i < prefix; i++) {
+        reuse(nodes[i], current[i] as HTMLElement)
+    }
+    for (let i = 1; i <= suffix; i++) {
+        reuse(nodes[nodes.length - i], current[current.length - i] as HTMLElement)
+    }
 
+    const before = suffix > 0 ? current[current.length - suffix] : null
+    current.slice(prefix, current.length - suffix).forEach(node => el.removeChild(node))
+    nodes.slice(prefix, nodes.length - suffix).forEach(node => el.insertBefore(node, before))
+    return mapped
+}
 
-interface AutocompleteEntry {
-    name: string
-    description?: string
+interface Chip {
+    // indices of the option name token and the last value token
+    first: number
+    last: number
+    start: number
+    valueStart: number
+    end: number
+    option: SearchOption
 }
 
-function AutoCompleteEntry(props: AutocompleteEntry & { selected: boolean, onHover: () => void, onClick: () => void }) {
-    return <div className={props.selected ? 'selected' : ''} onMouseOver={props.onHover} onClick={props.onClick}>
-        <div>{props.name}</div>
-        <div>{props.description}</div>
-    </div>
+// name:value pairs without errors that the caret is not in (or right next to) are shown as chips
+function findChips(result: ParseResult, caret: CaretRange | null): Chip[] {
+    const chips: Chip[] = []
+    const {tokens} = result
+    for (let i = 0; i < tokens.length; i++) {
+        if (tokens[i].type !== "option-name") {
+            continue
+        }
+        let last = i
+        while (last + 1 < tokens.length && tokens[last + 1].type !== "space" && tokens[last + 1].type !== "bracket") {
+            last++
+        }
+        const start = tokens[i].start, end = tokens[last].end
+        const valid = end > tokens[i].end && !result.errors.some(error => error.start < end && error.end > start)
+        const editing = caret !== null && caret.end >= start && caret.start <= end
+        if (valid && !editing) {
+            chips.push({first: i, last, start, valueStart: tokens[i].end, end, option: tokens[i + 1].suggest as SearchOption})
+        }
+        i = last
+    }
+    return chips
 }
 
-interface AutoCompleteProps {
-    onSelect: (idx: number) => void
-    onHover: (idx: number) => void
-    entries: AutocompleteEntry[]
-    anchor: HTMLElement
-    selected: number
+function tokenErrors(errors: ParseError[], token: Token) {
+    return errors.filter(error => error.start < token.end && error.end > token.start)
 }
 
-function AutoComplete(props: AutoCompleteProps ) {
-    const [leftPos, setLeftPos] = useState(0)
-    useEffect(() => {
-        setLeftPos(props.anchor.offsetLeft - (props.anchor.parentElement as HTMLElement).offsetLeft)
-    })
+const visuallyHidden = {
+    position: "absolute",
+    width: 1,
+    height: 1,
+    overflow: "hidden",
+    clip: "rect(0 0 0 0)",
+    whiteSpace: "nowrap",
+} as const
 
-    return <div style={{position: "absolute", left: leftPos}} className="autocomplete-container">
-        {props.entries.map((entry, index) => <AutoCompleteEntry selected={index === props.selected} {...entry} onHover={() => props.onHover(index)} onClick={() => props.onSelect(index)}/>)}
-    </div>
+let searchIdCounter = 0
+
+function getQueryText(el: HTMLElement) {
+    return queryTextOf(el).replace(/\u00a0/g, ' ') // non-breaking spaces back to regular spaces
 }
 
+// the div attributes SearchProps doesn't redefine, onChange and onSubmit would otherwise end up with two signatures
+type DivProps = Omit<HTMLAttributes<HTMLDivElement>, keyof SearchProps>
 
-interface AutocompleteState {
-    entries: AutocompleteEntry[]
-    anchor: HTMLElement
-    token: Token
-    selection: number
-}
+const Search = forwardRef<SearchHandle, PropsWithChildren<SearchProps & DivProps>>(function Search(props, ref) {
 
-export default function Search(props: PropsWithChildren<SearchProps & HTMLAttributes<HTMLDivElement>>) {
+    const {options, name, paramsName, required, disabled, readOnly, placeholder, maxLength, multiline, onNormalize, normalize, chips: chipMode, label, labelledBy, renderSuggestion, renderPopup, tokenClassName, renderTokenTooltip, grammar, messages: customMessages, trueWords, falseWords, onChange, onError, onSubmit, keyBindings, onSuggestionError, suggestionDebounce, maxSuggestions, historyStorage, historySize, value, defaultValue, ...restProps} = props
 
-    const {options, onChange, onError, ...restProps} = props
+    const messages: SearchMessages = {...defaultSearchMessages, ...customMessages}
+    const parseSettings: ParseSettings = {grammar, messages: customMessages, trueWords, falseWords}
 
     const inputRef: React.MutableRefObject<HTMLSpanElement | null> = useRef(null)
+    const queryRef = useRef<string | null>(null)
+    const resultRef = useRef<ParseResult | null>(null)
+    const suggestionAbortRef = useRef<AbortController | null>(null)
+    const chipsRef = useRef<Chip[]>([])
+    const composingRef = useRef(false)
+    const typingRef = useRef(false)
+    const caretRef = useRef<CaretRange | null>(null)
+    const undoRef = useRef<UndoEntry[]>([])
+    const redoRef = useRef<UndoEntry[]>([])
+    const lastEditRef = useRef(0)
+    // the controlled value last applied and the query it turned into, which differ when normalize rewrites it
+    const appliedValueRef = useRef<{ value: string, query: string } | null>(null)
+    // token spans in token order, chips nest them so they are not all direct children of the input
+    const tokenElementsRef = useRef<HTMLElement[]>([])
 
     const [autocomplete, setAutocomplete] = useState<null | AutocompleteState>(null)
+    const [errors, setErrors] = useState<ParseError[]>([])
+    const [errorTooltip, setErrorTooltip] = useState<null | ErrorTooltipProps>(null)
+    const [formState, setFormState] = useState({query: '', params: '', error: ''})
+    const formInputRef = useRef<HTMLInputElement | null>(null)
+    const editable = !disabled && !readOnly
+    const [chipEditor, setChipEditor] = useState<null | { chip: Chip, anchor: HTMLElement, value: string }>(null)
+    const [history, setHistory] = useState<SearchHistory>(() => historyStorage?.load() ?? {recent: [], saved: []})
+    const [baseId] = useState(() => `search-${++searchIdCounter}`)
+    const errorsId = `${baseId}-errors`
+    const listboxId = `${baseId}-listbox`
+    const chipEditorId = `${baseId}-chip-editor`
+    const expanded = autocomplete !== null
 
     function installInputEventListener() {
         inputRef.current?.addEventListener('input', handleInput)
@@ -410,150 +642,514 @@ export default function Search(props: PropsWithChildren<SearchProps & HTMLAttrib
         inputRef.current?.removeEventListener('input', handleInput)
     }
 
-    async function handleInput(this: HTMLElement) {
-        uninstallInputEventListener()
-        const result = parse(this.textContent ?? '', options ?? [])
-        const sel = window.getSelection() as Selection
-        let anchorPos = -1, focusPos = -1
-        if ((sel.anchorNode?.nodeType === Node.TEXT_NODE && sel.anchorNode?.parentElement === this) || sel.anchorNode === this) {
-            anchorPos = sel.anchorOffset
+    function handleInput(this: HTMLElement) {
+        if (composingRef.current) {
+            return // the IME owns the DOM until the composition ends
         }
-        if ((sel.focusNode?.nodeType === Node.TEXT_NODE && sel.focusNode?.parentElement === this) || sel.focusNode === this) {
-            focusPos = sel.focusOffset
+        const query = getQueryText(this)
+        if (maxLength !== undefined && query.length > maxLength && query.length > (queryRef.current ?? '').length) {
+            // puts the previous query back, like an input does with keys that would exceed its maxLength
+            renderQuery(this, queryRef.current ?? '', caretRef.current)
+            return
         }
-        let currentOffset = 0
-        for (const child of this.children) {
-            if (anchorPos >= 0 && focusPos >= 0) {
-                break
-            }
-            if (sel.anchorNode === child || child.contains(sel.anchorNode)) {
-                anchorPos = currentOffset + sel.anchorOffset
-            }
-            if (sel.focusNode === child || child.contains(sel.focusNode)) {
-                focusPos = currentOffset + sel.focusOffset
+        typingRef.current = true
+        renderQuery(this, query, getCaretRange(this))
+        typingRef.current = false
+    }
+
+    function handleCompositionEnd() {
+        composingRef.current = false
+        handleInput.call(inputRef.current as HTMLElement)
+    }
+
+    // typing in quick succession is undone as one step
+    function recordUndo(coalesce: boolean) {
+        const now = Date.now()
+        const undo = undoRef.current
+        if (!coalesce || now - lastEditRef.current > 1000 || undo.length === 0) {
+            undo.push({query: queryRef.current ?? '', caret: caretRef.current})
+            if (undo.length > 100) {
+                undo.shift()
             }
-            currentOffset += (child.textContent as string).length
         }
-        if (anchorPos === -1 || focusPos === -1) {
-            anchorPos = focusPos = (this.textContent as string).length
+        lastEditRef.current = coalesce ? now : 0
+        redoRef.current = []
+    }
+
+    function restoreEdit(from: UndoEntry[], to: UndoEntry[]) {
+        const entry = from.pop()
+        if (entry === undefined || !inputRef.current) {
+            return
         }
+        to.push({query: queryRef.current ?? '', caret: caretRef.current})
+        queryRef.current = null // keeps renderQuery from recording the restore as a new edit
+        renderQuery(inputRef.current, entry.query, entry.caret ?? {start: entry.query.length, end: entry.query.length})
+        lastEditRef.current = 0
+    }
 
-        while (this.firstChild) {
-            this.removeChild(this.firstChild)
+    function handlePaste(e: React.ClipboardEvent) {
+        e.preventDefault()
+        if (!inputRef.current || !editable) {
+            return
         }
+        // pasted line breaks would end up as <br>s and <div>s, a query is a single line unless multiline is set
+        const pastedText = e.clipboardData.getData('text/plain')
+        const query = queryRef.current ?? ''
+        const caret = getCaretRange(inputRef.current)
+        const available = maxLength === undefined ? undefined : Math.max(0, maxLength - query.length + caret.end - caret.start)
+        const text = (multiline ? pastedText.replace(/\r\n?/g, '\n') : pastedText.replace(/[\r\n]+/g, ' ')).slice(0, available)
+        const [pasted, position] = normalizeInput(query.slice(0, caret.start) + text + query.slice(caret.end), caret.start + text.length)
+        renderQuery(inputRef.current, pasted, {start: position, end: position})
+    }
 
-        currentOffset = 0
-        const startPos = Math.min(anchorPos, focusPos)
-        const endPos = Math.max(anchorPos, focusPos)
+    // re-renders the token spans for the given query; the caret is only restored and autocomplete only shown
+    // when a selection is passed, so programmatic updates don't steal the focus
+    function renderQuery(el: HTMLElement, query: string, selection: CaretRange | null) {
+        if (query !== queryRef.current && queryRef.current !== null && selection !== null) {
+            recordUndo(typingRef.current)
+        }
+        if (selection !== null) {
+            caretRef.current = selection
+        }
+        const result = parse(query, options ?? [], parseSettings)
+        queryRef.current = query
+        resultRef.current = result
+
+        let currentOffset = 0
+        const startPos = selection?.start ?? 0
+        const endPos = selection?.end ?? 0
         const range = document.createRange()
 
-        let autocompleteAnchor = null
-        let autocompleteToken: Token | null = null
+        let caretToken: Token | null = null
+
+        const chips = chipMode ? findChips(result, selection) : []
+        let tokenElements: HTMLElement[] = []
+        chipsRef.current = chips
+        setChipEditor(null)
 
         if (result.tokens.length > 0) {
-            for (const token of result.tokens) {
-                const content = token.content.replace(/\s/g, String.fromCharCode(160)) // non-breaking spaces
+            const nodes: HTMLElement[] = []
+            let chipElem: HTMLElement | null = null
+            for (const [index, token] of result.tokens.entries()) {
+                const chip = chips.find(chip => index >= chip.first && index <= chip.last)
+                if (chip && index === chip.first) {
+                    chipElem = document.createElement('span')
+                    chipElem.className = 'token-chip'
+                    chipElem.contentEditable = 'false'
+                    nodes.push(chipElem)
+                }
+
+                const content = token.content
                 const tokenElem = document.createElement('span')
                 tokenElem.classList.add('token', tokenClassNameMap[token.type])
+                if (tokenErrors(result.errors, token).length > 0) {
+                    tokenElem.classList.add('token-error')
+                }
+                const customClassName = tokenClassName?.(token, tokenErrors(result.errors, token))
+                if (customClassName) {
+                    tokenElem.classList.add(...customClassName.split(/\s+/).filter(Boolean))
+                }
                 tokenElem.appendChild(document.createTextNode(content))
-                this.appendChild(tokenElem)
-
-                const length = content.length
+                tokenElements.push(tokenElem)
+                if (chip) {
+                    (chipElem as HTMLElement).appendChild(tokenElem)
+                    if (index === chip.last) {
+                        const removeButton = document.createElement('button')
+                        removeButton.type = 'button'
+                        removeButton.tabIndex = -1
+                        removeButton.className = 'token-chip-remove'
+                        removeButton.dataset.searchUi = ''
+                        removeButton.setAttribute('aria-label', messages.removeChip(query.slice(chip.start, chip.end)))
+                        removeButton.textContent = '×'
+                        ;(chipElem as HTMLElement).appendChild(removeButton)
+                    }
+                } else {
+                    nodes.push(tokenElem)
+                }
+            }
+            tokenElements = patchChildren(el, nodes, tokenElements)
+
+            for (const [index, token] of result.tokens.entries()) {
+                const tokenElem = tokenElements[index]
+                const length = token.content.length
+                if (chips.some(chip => index >= chip.first && index <= chip.last)) {
+                    currentOffset += length
+                    continue
+                }
                 if (startPos >= currentOffset && startPos < currentOffset + length) {
                     range.setStart(tokenElem.firstChild as ChildNode, startPos - currentOffset)
                 }
                 if (endPos >= currentOffset && endPos < currentOffset + length) {
                     range.setEnd(tokenElem.firstChild as ChildNode, endPos - currentOffset)
                     if (startPos === endPos) {
-                        autocompleteAnchor = tokenElem as HTMLElement
-                        autocompleteToken = token
+                        caretToken = token
                     }
                 }
                 currentOffset += length
             }
             if (startPos >= currentOffset) {
-                const node = this.lastChild?.firstChild as Node
+                const lastElem = tokenElements[tokenElements.length - 1]
+                const node = lastElem.firstChild as Node
                 range.setStart(node, (node.textContent as string).length)
                 range.setEnd(node, (node.textContent as string).length)
-                autocompleteAnchor = this.lastChild
-                autocompleteToken = result.tokens[result.tokens.length - 1]
+                caretToken = result.tokens[result.tokens.length - 1]
             }
         } else {
-            this.appendChild(document.createTextNode(''))
+            while (el.firstChild) {
+                el.removeChild(el.firstChild)
+            }
+            el.appendChild(document.createTextNode(''))
             // @ts-ignore
-            range.setStart(this.firstChild as ChildNode, 0)
+            range.setStart(el.firstChild as ChildNode, 0)
             // @ts-ignore
-            range.setEnd(this.firstChild as ChildNode, 0)
+            range.setEnd(el.firstChild as ChildNode, 0)
         }
+        tokenElementsRef.current = tokenElements
 
-        sel.removeAllRanges()
-        sel.addRange(range)
-
+        setErrors(result.errors)
         const autocompleteEntries: AutocompleteEntry[] = []
-        if (autocompleteAnchor !== null && autocompleteToken !== null) {
-            if (autocompleteToken.suggest === "options") {
-                for (const opt of options ?? []) {
-                    if (opt.name.startsWith(autocompleteToken.content) || opt.title?.startsWith(autocompleteToken.content)) {
-                        autocompleteEntries.push({
-                            name: opt.name + ":",
-                            description: opt.title
-                        })
-                    }
-                }
-            } else if (autocompleteToken.suggest !== "none") {
-                switch (autocompleteToken.suggest.type) {
+        let provider: SuggestionProvider | undefined
+        if (selection !== null) {
+            const sel = window.getSelection() as Selection
+            sel.removeAllRanges()
+            sel.addRange(range)
+            showErrorTooltip(caretToken)
+        } else {
+            setErrorTooltip(null)
+            caretToken = null
+        }
+
+        const context = selection !== null && startPos === endPos ? completionContext(result, endPos) : null
+        const contextAnchor = context !== null ? tokenElements[context.token] : undefined
+        const suggestionLimit = maxSuggestions ?? 10
+        const hint = context !== null && context.suggest !== "options" ? constraintHint(context.suggest, messages) : undefined
+        if (context !== null && contextAnchor !== undefined) {
+            const input = context.input
+            if (context.suggest === "options") {
+                const available = (options ?? []).filter(opt => conflictingOptions(opt, result.result as SearchParams, options ?? []).length === 0)
+                autocompleteEntries.push(...rankEntries(input, available.map(opt => ({
+                    // the title is shown as the label, what gets inserted is always the canonical name
+                    entry: {
+                        name: opt.name + ":",
+                        label: opt.title,
+                        description: typeof opt.description === "string" ? opt.description : undefined,
+                    },
+                    keywords: [
+                        [opt.name, 1],
+                        ...(opt.aliases ?? []).map(alias => [alias, 0.9] as [string, number]),
+                        [opt.title ?? '', 0.8],
+                        [typeof opt.description === "string" ? opt.description : '', 0.5],
+                    ],
+                })), suggestionLimit))
+            } else {
+                switch (context.suggest.type) {
                     case "boolean":
-                        autocompleteEntries.push({
-                            name: "yes"
-                        }, {
-                            name: "no"
-                        })
+                        autocompleteEntries.push(...rankEntries(input, ([] as string[]).concat(...booleanWords(context.suggest, parseSettings)).map(word => ({
+                            entry: {name: word},
+                            keywords: [[word, 1]],
+                        })), suggestionLimit))
                         break;
-                    case "enum":
-                        // @ts-ignore
-                        autocompleteEntries.push(...autocompleteToken.suggest.options.filter(option => option.startsWith(autocompleteToken.content)).map(option => ({
-                            name: option
-                        })))
+                    case "enum": {
+                        const {labels = {}} = context.suggest
+                        autocompleteEntries.push(...rankEntries(input, context.suggest.options.map(option => ({
+                            entry: labels.hasOwnProperty(option) ? {name: option, label: labels[option]} : {name: option},
+                            keywords: [[option, 1], [labels[option] ?? '', 0.9]],
+                        })), suggestionLimit))
+                        break;
+                    }
+                    case "date":
+                    case "date-range":
+                        autocompleteEntries.push(...rankEntries(input, messages.dateHints.map(hint => ({
+                            entry: hint,
+                            keywords: [[hint.name, 1], [hint.description ?? '', 0.5]],
+                        })), suggestionLimit))
                         break;
                     case "number":
+                    case "number-range":
                     case "string":
-                        if (autocompleteToken.suggest.suggestionProvider) {
-                            const provided = autocompleteToken.suggest.suggestionProvider(autocompleteToken.content)
-                            let suggestions
-                            if (provided instanceof Promise) {
-                                suggestions = await provided
-                            } else {
-                                suggestions = provided
-                            }
-                            autocompleteEntries.push(...suggestions)
-                        }
+                        provider = context.suggest.suggestionProvider
                 }
 
             }
         }
-        if (autocompleteEntries.length > 0) {
+        suggestionAbortRef.current?.abort()
+        suggestionAbortRef.current = null
+        if (provider) {
+            loadSuggestions(provider, context as CompletionContext, contextAnchor as HTMLElement, startPos, result)
+        } else if (selection !== null && query.length === 0) {
+            showHistory()
+        } else if (autocompleteEntries.length > 0 || hint !== undefined) {
             setAutocomplete({
                 entries: autocompleteEntries,
-                anchor: autocompleteAnchor as HTMLElement,
-                token: autocompleteToken as Token,
+                anchor: contextAnchor as HTMLElement,
+                context,
                 selection: 0,
+                status: "ready",
+                hint,
             })
         } else {
             setAutocomplete(null)
         }
 
-        installInputEventListener()
-        if (result.error === null && onChange) {
-            onChange(result.result as SearchParams)
+        const firstError = result.errors.find(error => error.severity === "error")
+        setFormState({
+            query,
+            params: firstError === undefined ? JSON.stringify(result.result) : '',
+            error: firstError === undefined ? '' : `${firstError.message}: ${query.slice(firstError.start, firstError.end)}`,
+        })
+        if (!result.errors.some(error => error.severity === "error")) {
+            onChange?.(result.result as SearchParams, query, result.query)
         } else if (onError) {
-            onError(result.error as ParseError)
+            onError(result.errors, query)
         }
     }
 
     useEffect(installInputEventListener)
 
+    useEffect(() => () => suggestionAbortRef.current?.abort(), [])
+
+    // the previous request is aborted on every render, so a late response never replaces newer suggestions
+    async function loadSuggestions(provider: SuggestionProvider, context: CompletionContext, anchor: HTMLElement, cursor: number, result: ParseResult) {
+        const controller = new AbortController()
+        suggestionAbortRef.current = controller
+        const option = context.suggest as SearchOption
+        const hint = constraintHint(option, messages)
+        // the suggestions shown so far are kept while loading, unless they belong to something else, e.g. the option names
+        setAutocomplete(previous => ({
+            entries: previous?.context?.suggest === context.suggest ? previous.entries : [],
+            anchor,
+            context,
+            selection: 0,
+            status: "loading",
+            hint,
+        }))
+        function show(entries: AutocompleteEntry[], status: AutocompleteState["status"]) {
+            if (!controller.signal.aborted) {
+                setAutocomplete({entries, anchor, context, selection: 0, status, hint})
+            }
+        }
+        try {
+            await delay(suggestionDebounce ?? 150, controller.signal)
+            const suggestions = await provider(context.input, {
+                signal: controller.signal,
+                option,
+                cursor,
+                params: result.result as SearchParams,
+            })
+            show(groupEntries(suggestions).slice(0, maxSuggestions ?? 10), suggestions.length > 0 ? "ready" : "empty")
+        } catch (error) {
+            if (!controller.signal.aborted) {
+                show([], "error")
+                onSuggestionError?.(error, option)
+            }
+        }
+    }
+
+    function showErrorTooltip(token: Token | null) {
+        const result = resultRef.current
+        const index = token !== null && result !== null ? result.tokens.indexOf(token) : -1
+        const anchor = tokenElementsRef.current[index] as HTMLElement | undefined
+        const tokenErrorList = index >= 0 ? tokenErrors((result as ParseResult).errors, token as Token) : []
+        const hasCustomTooltip = index >= 0 && renderTokenTooltip !== undefined && renderTokenTooltip(token as Token, tokenErrorList) != null
+        if (anchor && (tokenErrorList.length > 0 || hasCustomTooltip)) {
+            setErrorTooltip({anchor, token: token as Token, errors: tokenErrorList})
+        } else {
+            setErrorTooltip(null)
+        }
+    }
+
+    function handleCaretMove() {
+        const tokens = resultRef.current?.tokens ?? []
+        if (inputRef.current && tokens.length > 0) {
+            const caret = getCaretRange(inputRef.current).end
+            showErrorTooltip(tokens.find(token => caret >= token.start && caret < token.end) ?? tokens[tokens.length - 1])
+        }
+    }
+
+    function handleMouseOver(e: React.MouseEvent) {
+        const tokenElem = (e.target as HTMLElement).closest('.token')
+        const tokens = resultRef.current?.tokens ?? []
+        const index = tokenElem ? tokenElementsRef.current.indexOf(tokenElem as HTMLElement) : -1
+        if (index >= 0 && index < tokens.length) {
+            showErrorTooltip(tokens[index])
+        }
+    }
+
+    function removeChip(chip: Chip) {
+        const query = queryRef.current ?? ''
+        const end = /\s/.test(query[chip.end] ?? '') ? chip.end + 1 : chip.end
+        renderQuery(inputRef.current as HTMLElement, query.slice(0, chip.start) + query.slice(end), {start: chip.start, end: chip.start})
+    }
+
+    function replaceChipValue(chip: Chip, value: string) {
+        const query = queryRef.current ?? ''
+        const text = chip.option.type === "number" || chip.option.type === "boolean" ? value : quoteValue(value)
+        const replaced = query.slice(0, chip.valueStart) + text + query.slice(chip.end)
+        // renderQuery only records edits that come with a caret, passing one would turn the chip back into text
+        if (replaced !== query) {
+            recordUndo(false)
+        }
+        renderQuery(inputRef.current as HTMLElement, replaced, null)
+        inputRef.current?.focus()
+    }
+
+    function closeChipEditor(returnFocus: boolean) {
+        setChipEditor(null)
+        if (returnFocus) {
+            inputRef.current?.focus()
+        }
+    }
+
+    function editChip(chip: Chip, anchor: HTMLElement) {
+        const query = queryRef.current ?? ''
+        const entry = parse(query.slice(chip.start, chip.end), [chip.option], parseSettings).result?.options[chip.option.name]
+        const value = entry && ('values' in entry ? entry.values[0] : entry.value)
+        if (chip.option.type === "boolean") {
+            replaceChipValue(chip, formatValue(chip.option, !value) as string)
+        } else {
+            setAutocomplete(null)
+            setChipEditor({chip, anchor, value: formatValue(chip.option, value) ?? ''})
+        }
+    }
+
+    function handleClick(e: React.MouseEvent) {
+        const target = e.target as HTMLElement
+        const chipElem = target.closest('.token-chip') as HTMLElement | null
+        const index = chipElem ? tokenElementsRef.current.indexOf(chipElem.querySelector('.token') as HTMLElement) : -1
+        const chip = chipsRef.current.find(chip => chip.first === index)
+        if (chipElem !== null && chip) {
+            if (!editable) {
+                return
+            } else if (target.closest('.token-chip-remove')) {
+                removeChip(chip)
+            } else {
+                editChip(chip, chipElem)
+            }
+        } else {
+            handleCaretMove()
+        }
+    }
+
+    // reports the rewrites normalizeQuery would make and, with normalize set, returns the rewritten query and caret
+    function normalizeInput(query: string, caret: number): [string, number] {
+        const normalized = normalizeQuery(query, options ?? [], parseSettings)
+        if (normalized.rewrites.length === 0) {
+            return [query, caret]
+        }
+        onNormalize?.(normalized.rewrites, normalized.query)
+        if (!normalize) {
+            return [query, caret]
+        }
+        for (const rewrite of normalized.rewrites) {
+            if (rewrite.end <= caret) {
+                caret += rewrite.to.length - rewrite.from.length
+            }
+        }
+        return [normalized.query, caret]
+    }
+
+    function setQuery(query: string) {
+        if (inputRef.current) {
+            renderQuery(inputRef.current, normalizeInput(query, 0)[0], null)
+        }
+    }
+
+    useEffect(() => {
+        if (value === undefined && defaultValue !== undefined) {
+            setQuery(defaultValue)
+        }
+    }, [])
+
+    // runs on every render, a parent that rejects an edit by passing the same value again has to get its query back
+    useEffect(() => {
+        if (value === undefined) {
+            return
+        }
+        const applied = appliedValueRef.current
+        if (value === queryRef.current) {
+            appliedValueRef.current = {value, query: value}
+        } else if (applied === null || value !== applied.value || queryRef.current !== applied.query) {
+            setQuery(value)
+            appliedValueRef.current = {value, query: queryRef.current ?? ''}
+        }
+    })
+
+    // an invalid query only blocks the form submission when a query is required
+    useEffect(() => {
+        formInputRef.current?.setCustomValidity(required ? formState.error : '')
+    }, [formState.error, required])
+
+    useEffect(() => {
+        if (!editable) {
+            setAutocomplete(null)
+            setChipEditor(null)
+        }
+    }, [editable])
+
+    useEffect(() => {
+        const form = formInputRef.current?.form
+        function handleReset() {
+            setQuery(defaultValue ?? '')
+        }
+        form?.addEventListener('reset', handleReset)
+        return () => form?.removeEventListener('reset', handleReset)
+    })
+
+    function updateHistory(next: SearchHistory) {
+        setHistory(next)
+        historyStorage?.save(next)
+    }
+
+    function recordQuery() {
+        const query = queryRef.current ?? ''
+        const result = resultRef.current
+        if (historyStorage && query.trim().length > 0 && result !== null && result.errors.length === 0) {
+            updateHistory(addRecentQuery(history, query, historySize ?? 10))
+        }
+    }
+
+    function showHistory() {
+        const entries: AutocompleteEntry[] = [
+            ...history.saved.map(saved => ({name: saved.name, description: saved.query, query: saved.query})),
+            ...history.recent.map(recent => ({name: recent, description: messages.recentSearch, query: recent})),
+        ]
+        if (inputRef.current && entries.length > 0) {
+            setAutocomplete({
+                entries,
+                anchor: inputRef.current,
+                context: null,
+                selection: 0,
+                status: "ready",
+            })
+        } else {
+            setAutocomplete(null)
+        }
+    }
+
+    function handleFocus() {
+        if (editable && (queryRef.current ?? '').length === 0) {
+            showHistory()
+        }
+    }
+
+    function handleBlur() {
+        setErrorTooltip(null)
+        recordQuery()
+    }
+
+    useImperativeHandle(ref, () => ({
+        focus: () => inputRef.current?.focus(),
+        clear: () => setQuery(''),
+        getQuery: () => queryRef.current ?? '',
+        setQuery,
+        getParams: () => resultRef.current?.result ?? null,
+        getQueryTree: () => resultRef.current?.query ?? null,
+        saveSearch: (name: string) => updateHistory(addSavedSearch(history, {name, query: queryRef.current ?? ''})),
+        removeSavedSearch: (name: string) => updateHistory(removeSavedSearch(history, name)),
+    }))
+
     function suggestionUp() {
-        if (autocomplete !== null) {
+        if (autocomplete !== null && autocomplete.entries.length > 0) {
             let selection = (autocomplete.entries.length + autocomplete.selection - 1) % autocomplete.entries.length; // add the length before modulo to get a positive index
             setAutocomplete({
                 ...autocomplete,
@@ -563,7 +1159,7 @@ export default function Search(props: PropsWithChildren<SearchProps & HTMLAttrib
     }
 
     function suggestionDown() {
-        if (autocomplete !== null) {
+        if (autocomplete !== null && autocomplete.entries.length > 0) {
             let selection = (autocomplete.entries.length + autocomplete.selection + 1) % autocomplete.entries.length; // add the length before modulo to get a positive index
             setAutocomplete({
                 ...autocomplete,
@@ -573,7 +1169,7 @@ export default function Search(props: PropsWithChildren<SearchProps & HTMLAttrib
     }
 
     function suggestionHover(idx: number) {
-        if (autocomplete !== null) {
+        if (autocomplete !== null && autocomplete.entries.length > 0) {
             let selection = idx % autocomplete.entries.length;
             setAutocomplete({
                 ...autocomplete,
@@ -583,60 +1179,176 @@ export default function Search(props: PropsWithChildren<SearchProps & HTMLAttrib
     }
 
     function suggestionSelect() {
-        if (autocomplete !== null) {
-            let val = autocomplete.entries[autocomplete.selection].name
-
-            val = val.replace(/\\/g, '\\\\').replace(/"/g, '\\"')
-
-            if (/(\s|"|\\)/.test(val)) {
-                val = `"${val}"`
+        if (editable && autocomplete !== null && autocomplete.entries.length > 0) {
+            const entry = autocomplete.entries[autocomplete.selection]
+            if (entry.query !== undefined || autocomplete.context === null) {
+                const query = entry.query ?? entry.name
+                renderQuery(inputRef.current as HTMLElement, query, {start: query.length, end: query.length})
+                return
             }
 
-            let el
-            if (autocomplete.token.type === Space) {
-                el = document.createElement('span')
-                inputRef.current?.insertBefore(el, autocomplete.anchor.nextSibling)
-            } else {
-                el = autocomplete.anchor
-            }
-            el.innerText = val
+            // option names end with a colon, so the caret lands in value position and value suggestions follow
+            const {context} = autocomplete
+            const text = entry.insertText ?? entry.name
+            const insert = context.suggest === "options" ? text : quoteValue(text)
+            const query = queryRef.current ?? ''
+            const position = context.start + insert.length
+            renderQuery(inputRef.current as HTMLElement, query.slice(0, context.start) + insert + query.slice(context.end), {start: position, end: position})
+        }
+    }
 
-            const sel = window.getSelection() as Selection
-            const r = document.createRange()
-            r.setStart(el.firstChild as Text, val.length)
-            r.setEnd(el.firstChild as Text, val.length)
-            sel.removeAllRanges()
-            sel.addRange(r)
-            handleInput.call(inputRef.current as HTMLElement)
+    function suggestionMoveTo(index: number) {
+        if (autocomplete !== null && autocomplete.entries.length > 0) {
+            setAutocomplete({
+                ...autocomplete,
+                selection: Math.max(0, Math.min(index, autocomplete.entries.length - 1))
+            })
+        }
+    }
+
+    function submit() {
+        const query = queryRef.current ?? ''
+        const result = resultRef.current ?? parse(query, options ?? [], parseSettings)
+        if (!result.errors.some(error => error.severity === "error")) {
+            setAutocomplete(null)
+            recordQuery()
+            onSubmit?.(result.result as SearchParams, query, result.query)
         }
     }
 
     function handleKeydown(e: KeyboardEvent) {
-        if (e.key === "ArrowUp") {
+        if (e.isComposing) {
+            return
+        }
+        const combination = keyCombination(e)
+        const bindings: KeyBindings = {...defaultKeyBindings, ...keyBindings}
+        const action = (Object.keys(bindings) as KeyAction[]).find(action => bindings[action].includes(combination))
+        if (!editable && (action === undefined || !readOnlyKeyActions.includes(action))) {
+            return
+        }
+        if (chipMode && e.key === "Backspace" && inputRef.current) {
+            const caret = getCaretRange(inputRef.current)
+            const query = queryRef.current ?? ''
+            const chip = chipsRef.current.find(chip => caret.start === caret.end && (caret.start === chip.end || (caret.start === chip.end + 1 && /\s/.test(query[chip.end]))))
+            if (chip) {
+                e.preventDefault()
+                removeChip(chip)
+                return
+            }
+        }
+        if (action === "newline") {
+            e.preventDefault()
+            if (multiline && inputRef.current) {
+                const query = queryRef.current ?? ''
+                const caret = getCaretRange(inputRef.current)
+                if (maxLength === undefined || query.length - (caret.end - caret.start) < maxLength) {
+                    renderQuery(inputRef.current, query.slice(0, caret.start) + '\n' + query.slice(caret.end), {start: caret.start + 1, end: caret.start + 1})
+                }
+            }
+        } else if (action === "undo" || action === "redo") {
+            // the DOM is rebuilt on every edit, which leaves nothing useful in the browser's own undo history
             e.preventDefault()
-            suggestionUp()
-        } else if (e.key === "ArrowDown") {
+            action === "undo" ? restoreEdit(undoRef.current, redoRef.current) : restoreEdit(redoRef.current, undoRef.current)
+        } else if (action === "submit") {
+            e.preventDefault() // Enter would insert a line break into the contentEditable
+            submit()
+        } else if (action === "open") {
             e.preventDefault()
-            suggestionDown()
-        } else if (e.key === "Tab") {
+            handleInput.call(inputRef.current as HTMLElement)
+        } else if (action === "dismiss" && autocomplete !== null) {
+            e.preventDefault()
+            setAutocomplete(null)
+        } else if (action !== undefined && autocomplete !== null && autocomplete.entries.length > 0) {
+            // without an open popup these keys keep their default behaviour, so Tab moves the focus on
             e.preventDefault()
-            suggestionSelect()
+            switch (action) {
+                case "previous":
+                    suggestionUp()
+                    break;
+                case "next":
+                    suggestionDown()
+                    break;
+                case "pageUp":
+                    suggestionMoveTo(autocomplete.selection - suggestionPageSize)
+                    break;
+                case "pageDown":
+                    suggestionMoveTo(autocomplete.selection + suggestionPageSize)
+                    break;
+                case "first":
+                    suggestionMoveTo(0)
+                    break;
+                case "last":
+                    suggestionMoveTo(autocomplete.entries.length - 1)
+                    break;
+                case "accept":
+                    suggestionSelect()
+            }
         }
     }
 
     useEffect(() => {
-        inputRef.current?.addEventListener('keydown', handleKeydown)
+        function handleBeforeInput(e: InputEvent) {
+            if (e.inputType === "historyUndo" || e.inputType === "historyRedo") {
+                e.preventDefault()
+                if (!editable) {
+                    return
+                }
+                e.inputType === "historyUndo" ? restoreEdit(undoRef.current, redoRef.current) : restoreEdit(redoRef.current, undoRef.current)
+            }
+        }
+
+        const el = inputRef.current
+        el?.addEventListener('keydown', handleKeydown)
+        el?.addEventListener('beforeinput', handleBeforeInput)
         return () => {
-            inputRef.current?.removeEventListener('keydown', handleKeydown)
+            el?.removeEventListener('keydown', handleKeydown)
+            el?.removeEventListener('beforeinput', handleBeforeInput)
         }
     })
 
     return <div style={{position: "relative"}} {...restProps}>
-        <span contentEditable={true} spellCheck={false} ref={inputRef} style={{display: "block"}}/>
+        {
+            placeholder !== undefined && formState.query.length === 0 &&
+            <div className="search-placeholder" aria-hidden={true} style={{position: "absolute", pointerEvents: "none"}}>{placeholder}</div>
+        }
+        <span contentEditable={editable} spellCheck={false} ref={inputRef} style={{display: "block", whiteSpace: "pre-wrap", overflowWrap: "anywhere"}}
+              tabIndex={readOnly && !disabled ? 0 : undefined} aria-disabled={disabled} aria-readonly={readOnly} aria-required={required}
+              aria-placeholder={placeholder}
+              role="combobox" aria-autocomplete="list" aria-haspopup="listbox" aria-expanded={expanded}
+              aria-controls={expanded ? listboxId : chipEditor?.chip.option.type === "enum" ? chipEditorId : undefined}
+              aria-activedescendant={autocomplete !== null && autocomplete.entries.length > 0 ? optionId(listboxId, autocomplete.selection) : undefined}
+              aria-label={label} aria-labelledby={labelledBy}
+              aria-invalid={errors.some(error => error.severity === "error")}
+              aria-describedby={errors.length > 0 ? errorsId : undefined}
+              onMouseOver={handleMouseOver} onMouseLeave={() => setErrorTooltip(null)}
+              onKeyUp={handleCaretMove} onClick={handleClick} onFocus={handleFocus} onBlur={handleBlur} onPaste={handlePaste}
+              onCompositionStart={() => composingRef.current = true} onCompositionEnd={handleCompositionEnd}/>
+        {
+            (name !== undefined || required) &&
+            // a visually hidden text input rather than a hidden one, so required and the validity take part in form validation
+            <input ref={formInputRef} name={name} value={formState.query} required={required} disabled={disabled} maxLength={maxLength}
+                   onChange={() => undefined} onInvalid={() => inputRef.current?.focus()}
+                   tabIndex={-1} aria-hidden={true} style={visuallyHidden}/>
+        }
+        {paramsName !== undefined && <input type="hidden" name={paramsName} value={formState.params} disabled={disabled}/>}
+        <div id={errorsId} role="status" aria-live="polite" style={visuallyHidden}>
+            {errors.map((error, index) => <div key={index}>{error.message}: {queryRef.current?.slice(error.start, error.end)}</div>)}
+        </div>
+        {
+            chipEditor &&
+            <ChipEditor id={chipEditorId} option={chipEditor.chip.option} value={chipEditor.value} anchor={chipEditor.anchor}
+                        onApply={value => replaceChipValue(chipEditor.chip, value)} onClose={closeChipEditor}/>
+        }
+        {
+            errorTooltip &&
+            <ErrorTooltip {...errorTooltip}>{renderTokenTooltip?.(errorTooltip.token, errorTooltip.errors)}</ErrorTooltip>
+        }
         {
             autocomplete &&
-            <AutoComplete entries={autocomplete.entries} anchor={autocomplete.anchor} selected={autocomplete.selection}
+            <AutoComplete id={listboxId} label={label} renderSuggestion={renderSuggestion} renderPopup={renderPopup} entries={autocomplete.entries} anchor={autocomplete.anchor} selected={autocomplete.selection} status={autocomplete.status} hint={autocomplete.hint} messages={messages}
                           onHover={suggestionHover} onSelect={idx => {suggestionHover(idx); suggestionSelect()}}/>
         }
     </div>
-}
\ No newline at end of file
+}) as <O extends SearchOption = SearchOption>(props: PropsWithChildren<SearchProps<O> & DivProps> & RefAttributes<SearchHandle>) => ReactElement | null
+
+export default Search
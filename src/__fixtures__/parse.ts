@@ -0,0 +1,160 @@
+import {ParseErrorCode, SearchOption, SearchParams, TokenType} from "../parser";
+
+export const fixtureOptions: SearchOption[] = [
+    {name: "status", type: "enum", options: ["open", "closed"], aliases: ["is"]},
+    {name: "tag", type: "string", multiple: true},
+    {name: "author", type: "string"},
+    {name: "stars", type: "number"},
+    {name: "draft", type: "boolean"},
+    {name: "created", type: "date"},
+    {name: "price", type: "number-range"},
+]
+
+export interface ParseFixture {
+    query: string
+    tokens: [TokenType, string][]
+    errors: [ParseErrorCode, number, number][]
+    params: SearchParams
+}
+
+// shared by the parser tests, every entry is checked for its tokens, its errors and the params
+export const parseFixtures: ParseFixture[] = [
+    {
+        query: "hello world",
+        tokens: [["text", "hello"], ["space", " "], ["text", "world"]],
+        errors: [],
+        params: {text: ["hello", "world"], options: {}},
+    },
+    {
+        query: "a\tb\nstatus:open\tc",
+        tokens: [["text", "a"], ["space", "\t"], ["text", "b"], ["space", "\n"], ["option-name", "status:"], ["enum", "open"], ["space", "\t"], ["text", "c"]],
+        errors: [],
+        params: {text: ["a", "b", "c"], options: {status: {value: "open"}}},
+    },
+    {
+        query: "status:open",
+        tokens: [["option-name", "status:"], ["enum", "open"]],
+        errors: [],
+        params: {text: [], options: {status: {value: "open"}}},
+    },
+    {
+        query: "is:closed",
+        tokens: [["option-name", "is:"], ["enum", "closed"]],
+        errors: [],
+        params: {text: [], options: {status: {value: "closed"}}},
+    },
+    {
+        query: "status:",
+        tokens: [["option-name", "status:"], ["missing-option-value", ""]],
+        errors: [["missing-option-value", 0, 7]],
+        params: {text: [], options: {}},
+    },
+    {
+        query: "status:maybe",
+        tokens: [["option-name", "status:"], ["invalid", "maybe"]],
+        errors: [["invalid-enum-value", 7, 12]],
+        params: {text: [], options: {}},
+    },
+    {
+        query: '"quoted \\"text\\""',
+        tokens: [["text", '"quoted '], ["escape-sequence", '\\"'], ["text", "text"], ["escape-sequence", '\\"'], ["text", '"']],
+        errors: [],
+        params: {text: ['quoted "text"'], options: {}},
+    },
+    {
+        query: 'author:"a\\nb"',
+        tokens: [["option-name", "author:"], ["text", '"a'], ["escape-sequence", "\\n"], ["text", 'b"']],
+        errors: [],
+        params: {text: [], options: {author: {value: "a\nb"}}},
+    },
+    {
+        query: 'author:"a\\x"',
+        tokens: [["option-name", "author:"], ["text", '"a'], ["invalid-escape-sequence", "\\x"], ["text", '"']],
+        errors: [["invalid-escape-sequence", 9, 11]],
+        params: {text: [], options: {author: {value: "a"}}},
+    },
+    {
+        query: "author:a author:b",
+        tokens: [["option-name", "author:"], ["text", "a"], ["space", " "], ["invalid-option-name", "author:"], ["text", "b"]],
+        errors: [["repeated-option", 9, 16]],
+        params: {text: ["b"], options: {author: {value: "a"}}},
+    },
+    {
+        query: "tag:a tag:b",
+        tokens: [["option-name", "tag:"], ["text", "a"], ["space", " "], ["option-name", "tag:"], ["text", "b"]],
+        errors: [],
+        params: {text: [], options: {tag: {values: ["a", "b"]}}},
+    },
+    {
+        query: "author:a:b",
+        tokens: [["option-name", "author:"], ["text", "a"], ["invalid", ":"], ["text", "b"]],
+        errors: [["unexpected-colon", 8, 9]],
+        params: {text: ["b"], options: {author: {value: "a"}}},
+    },
+    {
+        query: 'author:"a:b"',
+        tokens: [["option-name", "author:"], ["text", '"a:b"']],
+        errors: [],
+        params: {text: [], options: {author: {value: "a:b"}}},
+    },
+    {
+        query: '"unterminated',
+        tokens: [["text", '"unterminated'], ["missing-quote", ""]],
+        errors: [["missing-quote", 0, 13]],
+        params: {text: ["unterminated"], options: {}},
+    },
+    {
+        query: "stars:abc",
+        tokens: [["option-name", "stars:"], ["invalid", "abc"]],
+        errors: [["invalid-number-value", 6, 9]],
+        params: {text: [], options: {}},
+    },
+    {
+        query: "draft:yes stars:3",
+        tokens: [["option-name", "draft:"], ["enum", "yes"], ["space", " "], ["option-name", "stars:"], ["number", "3"]],
+        errors: [],
+        params: {text: [], options: {draft: {value: true}, stars: {value: 3}}},
+    },
+    {
+        query: "price:10..20",
+        tokens: [["option-name", "price:"], ["number", "10"], ["range-operator", ".."], ["number", "20"]],
+        errors: [],
+        params: {text: [], options: {price: {value: {min: 10, max: 20, minExclusive: false, maxExclusive: false}}}},
+    },
+    {
+        query: "price:>5",
+        tokens: [["option-name", "price:"], ["comparison-operator", ">"], ["number", "5"]],
+        errors: [],
+        params: {text: [], options: {price: {value: {min: 5, max: null, minExclusive: true, maxExclusive: false}}}},
+    },
+    {
+        query: "price:20..10",
+        tokens: [["option-name", "price:"], ["number", "20"], ["range-operator", ".."], ["number", "10"]],
+        errors: [["invalid-range-value", 6, 12]],
+        params: {text: [], options: {}},
+    },
+    {
+        query: "created:2024-01-02",
+        tokens: [["option-name", "created:"], ["date", "2024-01-02"]],
+        errors: [],
+        params: {text: [], options: {created: {value: new Date(2024, 0, 2)}}},
+    },
+    {
+        query: "foo:bar",
+        tokens: [["invalid-option-name", "foo:"], ["text", "bar"]],
+        errors: [["unknown-option", 0, 4]],
+        params: {text: ["bar"], options: {}},
+    },
+    {
+        query: "a\\b",
+        tokens: [["text", "a"], ["invalid", "\\"], ["text", "b"]],
+        errors: [["unexpected-escape", 1, 2]],
+        params: {text: ["ab"], options: {}},
+    },
+    {
+        query: 'x"y',
+        tokens: [["text", "x"], ["invalid", '"'], ["text", "y"]],
+        errors: [["unexpected-quote", 1, 2]],
+        params: {text: ["xy"], options: {}},
+    },
+]
@@ -0,0 +1,116 @@
+import {fromURLSearchParams, toElasticsearch, toSql, toURLSearchParams} from "./adapters";
+import {SearchOption, SearchParams} from "./parser";
+
+const options: SearchOption[] = [
+    {name: "status", type: "enum", options: ["open", "closed"]},
+    {name: "tag", type: "string", multiple: true},
+    {name: "author", type: "string", field: "author_name"},
+    {name: "stars", type: "number", multiple: true},
+    {name: "created", type: "date"},
+    {name: "updated", type: "date-range"},
+    {name: "price", type: "number-range"},
+]
+
+const params: SearchParams = {
+    text: ["50% off", "big_deal"],
+    options: {
+        status: {value: "open"},
+        tag: {values: ["ui", "api"]},
+        stars: {values: [3, 5]},
+        created: {value: new Date(2024, 0, 2)},
+        updated: {value: {min: new Date(2024, 0, 1), max: null, minExclusive: false, maxExclusive: false}},
+        price: {value: {min: 10, max: 20, minExclusive: false, maxExclusive: false}},
+    },
+}
+
+describe("toURLSearchParams", () => {
+    test("writes text, multiple values, ranges and dates", () => {
+        expect(toURLSearchParams(params, options).toString()).toBe(
+            "q=50%25+off&q=big_deal&status=open&tag=ui&tag=api&stars=3&stars=5&created=2024-01-02&updated=%3E%3D2024-01-01&price=10..20")
+    })
+
+    test("uses the configured text parameter", () => {
+        expect(toURLSearchParams({text: ["hello"], options: {}}, options, {textParam: "search"}).toString()).toBe("search=hello")
+    })
+})
+
+describe("fromURLSearchParams", () => {
+    test("reads back what toURLSearchParams wrote", () => {
+        expect(fromURLSearchParams(toURLSearchParams(params, options), options)).toEqual(params)
+    })
+
+    test("drops invalid values", () => {
+        expect(fromURLSearchParams("q=hello&status=maybe&stars=3&stars=x", options)).toEqual({
+            text: ["hello"],
+            options: {stars: {values: [3]}},
+        })
+    })
+})
+
+describe("toSql", () => {
+    test("builds a where clause with numbered placeholders", () => {
+        const query = toSql(params, options, {textColumns: ["title", "body"], placeholder: index => `$${index}`})
+        expect(query.where).toBe([
+            `(LOWER("title") LIKE $1 ESCAPE '!' OR LOWER("body") LIKE $2 ESCAPE '!')`,
+            `(LOWER("title") LIKE $3 ESCAPE '!' OR LOWER("body") LIKE $4 ESCAPE '!')`,
+            `"status" = $5`,
+            `((LOWER("tag") LIKE $6 ESCAPE '!') OR (LOWER("tag") LIKE $7 ESCAPE '!'))`,
+            `"stars" IN ($8, $9)`,
+            `"created" >= $10 AND "created" < $11`,
+            `"updated" >= $12`,
+            `"price" >= $13 AND "price" <= $14`,
+        ].join(" AND "))
+        expect(query.values).toEqual([
+            "%50!% off%", "%50!% off%", "%big!_deal%", "%big!_deal%",
+            "open", "%ui%", "%api%", 3, 5,
+            new Date(2024, 0, 2), new Date(2024, 0, 3),
+            new Date(2024, 0, 1),
+            10, 20,
+        ])
+    })
+
+    test("escapes the escape character and accepts another one", () => {
+        const query = toSql({text: [], options: {author: {value: "a!b\\c"}}}, options)
+        expect(query).toEqual({where: `LOWER("author_name") LIKE ? ESCAPE '!'`, values: ["%a!!b\\c%"]})
+        expect(toSql({text: [], options: {author: {value: "a|b_"}}}, options, {likeEscape: "|"}))
+            .toEqual({where: `LOWER("author_name") LIKE ? ESCAPE '|'`, values: ["%a||b|_%"]})
+    })
+
+    test("keeps exclusive bounds", () => {
+        expect(toSql({text: [], options: {price: {value: {min: 5, max: null, minExclusive: true, maxExclusive: false}}}}, options))
+            .toEqual({where: `"price" > ?`, values: [5]})
+    })
+
+    test("matches everything without params", () => {
+        expect(toSql({text: [], options: {}}, options)).toEqual({where: "1 = 1", values: []})
+    })
+
+    test("needs text columns for free text", () => {
+        expect(() => toSql({text: ["hello"], options: {}}, options)).toThrow()
+    })
+})
+
+describe("toElasticsearch", () => {
+    test("builds a bool query", () => {
+        expect(toElasticsearch(params, options, {textFields: ["title"]})).toEqual({
+            bool: {
+                must: [
+                    {multi_match: {query: "50% off", fields: ["title"]}},
+                    {multi_match: {query: "big_deal", fields: ["title"]}},
+                    {bool: {should: [{match: {tag: "ui"}}, {match: {tag: "api"}}], minimum_should_match: 1}},
+                ],
+                filter: [
+                    {term: {status: "open"}},
+                    {terms: {stars: [3, 5]}},
+                    {range: {created: {gte: new Date(2024, 0, 2).toISOString(), lt: new Date(2024, 0, 3).toISOString()}}},
+                    {range: {updated: {gte: new Date(2024, 0, 1).toISOString()}}},
+                    {range: {price: {gte: 10, lte: 20}}},
+                ],
+            },
+        })
+    })
+
+    test("uses the option field", () => {
+        expect(toElasticsearch({text: [], options: {author: {value: "bob"}}}, options)).toEqual({bool: {must: [{match: {author_name: "bob"}}]}})
+    })
+})
@@ -0,0 +1,214 @@
+import {formatValue, parse, quoteValue, SearchOption, SearchParams, ValueRange} from "./parser";
+
+
+export interface URLSearchParamsSettings {
+    // the parameter free text terms are written to
+    textParam?: string
+}
+
+export interface SqlSettings {
+    // renders the placeholder for the value at the given (1-based) index, defaults to ?
+    placeholder?: (index: number) => string
+    quoteIdentifier?: (name: string) => string
+    // columns free text terms are searched in
+    textColumns?: string[]
+    // escapes % and _ in LIKE patterns, defaults to ! since a backslash is itself an escape in MySQL string literals
+    likeEscape?: string
+}
+
+export interface SqlQuery {
+    where: string
+    values: unknown[]
+}
+
+export interface ElasticsearchSettings {
+    // fields free text terms are searched in, defaults to the index' default fields
+    textFields?: string[]
+}
+
+export type ElasticsearchQuery = { [key: string]: any }
+
+
+function optionValues(params: SearchParams, option: SearchOption): any[] {
+    if (!params.options.hasOwnProperty(option.name)) {
+        return []
+    }
+    const entry = params.options[option.name]
+    return 'values' in entry ? entry.values : [entry.value]
+}
+
+function fieldName(option: SearchOption): string {
+    return typeof option.field === "string" ? option.field : option.name
+}
+
+// start of the given day and of the day after, which is what date options match against
+function dayRange(date: Date): [Date, Date] {
+    const start = new Date(date.getTime())
+    start.setHours(0, 0, 0, 0)
+    const end = new Date(start.getTime())
+    end.setDate(end.getDate() + 1)
+    return [start, end]
+}
+
+
+export function toURLSearchParams(params: SearchParams, options: SearchOption[], settings: URLSearchParamsSettings = {}): URLSearchParams {
+    const search = new URLSearchParams()
+    for (const text of params.text) {
+        search.append(settings.textParam ?? "q", text)
+    }
+    for (const option of options) {
+        for (const value of optionValues(params, option).slice(0, option.multiple ? undefined : 1)) {
+            const str = formatValue(option, value)
+            if (str !== null) {
+                search.append(option.name, str)
+            }
+        }
+    }
+    return search
+}
+
+// values go through parse, so they are validated exactly like typed queries and invalid ones are dropped
+export function fromURLSearchParams(search: URLSearchParams | string, options: SearchOption[], settings: URLSearchParamsSettings = {}): SearchParams {
+    const urlParams = typeof search === "string" ? new URLSearchParams(search) : search
+    const parts = urlParams.getAll(settings.textParam ?? "q").map(quoteValue)
+    for (const option of options) {
+        const values = urlParams.getAll(option.name)
+        for (const value of values.slice(0, option.multiple ? undefined : 1)) {
+            parts.push(`${option.name}:${quoteValue(value)}`)
+        }
+    }
+    return parse(parts.join(' '), options).result as SearchParams
+}
+
+
+export function toSql(params: SearchParams, options: SearchOption[], settings: SqlSettings = {}): SqlQuery {
+    const placeholder = settings.placeholder ?? (() => "?")
+    const quoteIdentifier = settings.quoteIdentifier ?? (name => `"${name.replace(/"/g, '""')}"`)
+    const likeEscape = settings.likeEscape ?? "!"
+    const values: unknown[] = []
+
+    function bind(value: unknown) {
+        values.push(value)
+        return placeholder(values.length)
+    }
+
+    function like(column: string, value: string) {
+        const pattern = Array.from(value.toLowerCase(), char => char === likeEscape || char === "%" || char === "_" ? likeEscape + char : char).join('')
+        return `LOWER(${column}) LIKE ${bind(`%${pattern}%`)} ESCAPE '${likeEscape}'`
+    }
+
+    function range(column: string, range: ValueRange<unknown>) {
+        const conditions = []
+        if (range.min !== null) {
+            conditions.push(`${column} ${range.minExclusive ? '>' : '>='} ${bind(range.min)}`)
+        }
+        if (range.max !== null) {
+            conditions.push(`${column} ${range.maxExclusive ? '<' : '<='} ${bind(range.max)}`)
+        }
+        return conditions.join(' AND ')
+    }
+
+    function condition(option: SearchOption, column: string, value: any): string {
+        switch (option.type) {
+            case "string":
+                return like(column, value)
+            case "date": {
+                const [start, end] = dayRange(value)
+                return `${column} >= ${bind(start)} AND ${column} < ${bind(end)}`
+            }
+            case "number-range":
+            case "date-range":
+                return range(column, value)
+            default:
+                return `${column} = ${bind(value)}`
+        }
+    }
+
+    const clauses: string[] = []
+    if (params.text.length > 0 && !settings.textColumns?.length) {
+        throw new Error("toSql needs textColumns to search for free text")
+    }
+    for (const text of params.text) {
+        const columns = (settings.textColumns as string[]).map(column => like(quoteIdentifier(column), text))
+        clauses.push(columns.length > 1 ? `(${columns.join(' OR ')})` : columns[0])
+    }
+    for (const option of options) {
+        const column = quoteIdentifier(fieldName(option))
+        const optionValueList = optionValues(params, option)
+        if (optionValueList.length === 0) {
+            continue
+        } else if (optionValueList.length > 1 && (option.type === "enum" || option.type === "number" || option.type === "boolean")) {
+            clauses.push(`${column} IN (${optionValueList.map(bind).join(', ')})`)
+        } else if (optionValueList.length > 1) {
+            clauses.push(`(${optionValueList.map(value => `(${condition(option, column, value)})`).join(' OR ')})`)
+        } else {
+            clauses.push(condition(option, column, optionValueList[0]))
+        }
+    }
+
+    return {
+        where: clauses.length > 0 ? clauses.join(' AND ') : '1 = 1',
+        values,
+    }
+}
+
+
+export function toElasticsearch(params: SearchParams, options: SearchOption[], settings: ElasticsearchSettings = {}): ElasticsearchQuery {
+    const must: ElasticsearchQuery[] = []
+    const filter: ElasticsearchQuery[] = []
+
+    function range(field: string, range: ValueRange<unknown>, format: (value: any) => unknown) {
+        const bounds: { [key: string]: unknown } = {}
+        if (range.min !== null) {
+            bounds[range.minExclusive ? "gt" : "gte"] = format(range.min)
+        }
+        if (range.max !== null) {
+            bounds[range.maxExclusive ? "lt" : "lte"] = format(range.max)
+        }
+        return {range: {[field]: bounds}}
+    }
+
+    function clause(option: SearchOption, field: string, value: any): ElasticsearchQuery {
+        switch (option.type) {
+            case "string":
+                return {match: {[field]: value}}
+            case "date": {
+                const [start, end] = dayRange(value)
+                return {range: {[field]: {gte: start.toISOString(), lt: end.toISOString()}}}
+            }
+            case "number-range":
+                return range(field, value, bound => bound)
+            case "date-range":
+                return range(field, value, (bound: Date) => bound.toISOString())
+            default:
+                return {term: {[field]: value}}
+        }
+    }
+
+    for (const text of params.text) {
+        must.push({multi_match: settings.textFields ? {query: text, fields: settings.textFields} : {query: text}})
+    }
+    for (const option of options) {
+        const field = fieldName(option)
+        const optionValueList = optionValues(params, option)
+        const target = option.type === "string" ? must : filter
+        if (optionValueList.length === 0) {
+            continue
+        } else if (optionValueList.length > 1 && (option.type === "enum" || option.type === "number" || option.type === "boolean")) {
+            target.push({terms: {[field]: optionValueList}})
+        } else if (optionValueList.length > 1) {
+            target.push({bool: {should: optionValueList.map(value => clause(option, field, value)), minimum_should_match: 1}})
+        } else {
+            target.push(clause(option, field, optionValueList[0]))
+        }
+    }
+
+    const bool: ElasticsearchQuery = {}
+    if (must.length > 0) {
+        bool.must = must
+    }
+    if (filter.length > 0) {
+        bool.filter = filter
+    }
+    return {bool}
+}
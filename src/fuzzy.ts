@@ -0,0 +1,62 @@
+export interface FuzzyMatch {
+    score: number
+    // indices of the matched characters in the target
+    positions: number[]
+}
+
+
+function isWordStart(target: string, index: number) {
+    if (index === 0) {
+        return true
+    }
+    const previous = target[index - 1], current = target[index]
+    return /[\s\-_.:/]/.test(previous) || (previous === previous.toLowerCase() && current !== current.toLowerCase())
+}
+
+function matchFrom(query: string, target: string, lowerTarget: string, start: number): FuzzyMatch | null {
+    const positions: number[] = []
+    let score = 0
+    let index = start
+    for (const char of query) {
+        index = lowerTarget.indexOf(char, index)
+        if (index < 0) {
+            return null
+        }
+        const previous = positions[positions.length - 1]
+        if (previous !== undefined && index === previous + 1) {
+            score += 5
+        } else if (previous !== undefined) {
+            score -= Math.min(index - previous - 1, 5)
+        }
+        if (isWordStart(target, index)) {
+            score += 8
+        }
+        score += 1
+        positions.push(index)
+        index++
+    }
+    if (positions[0] === 0) {
+        score += 10
+    }
+    return {score: score - target.length * 0.1, positions}
+}
+
+// case-insensitive subsequence match, consecutive characters and word starts score higher
+export function fuzzyMatch(query: string, target: string): FuzzyMatch | null {
+    const lowerQuery = query.toLowerCase()
+    const lowerTarget = target.toLowerCase()
+    if (lowerQuery.length === 0) {
+        return {score: 0, positions: []}
+    }
+    let best: FuzzyMatch | null = null
+    for (let start = lowerTarget.indexOf(lowerQuery[0]); start >= 0; start = lowerTarget.indexOf(lowerQuery[0], start + 1)) {
+        const match = matchFrom(lowerQuery, target, lowerTarget, start)
+        if (match === null) {
+            break
+        }
+        if (best === null || match.score > best.score) {
+            best = match
+        }
+    }
+    return best
+}
@@ -0,0 +1,38 @@
+import {addRecentQuery, addSavedSearch, createLocalStorageHistoryStorage, createMemoryHistoryStorage, removeSavedSearch, SearchHistory} from "./history";
+
+describe("history", () => {
+    test("keeps recent queries unique, most recent first and limited", () => {
+        let history: SearchHistory = {recent: [], saved: []}
+        for (const query of ["a", "b", "a", "c"]) {
+            history = addRecentQuery(history, query, 2)
+        }
+        expect(history.recent).toEqual(["c", "a"])
+    })
+
+    test("replaces and removes saved searches by name", () => {
+        let history = addSavedSearch({recent: [], saved: []}, {name: "mine", query: "author:me"})
+        history = addSavedSearch(history, {name: "open", query: "status:open"})
+        history = addSavedSearch(history, {name: "mine", query: "author:bob"})
+        expect(history.saved).toEqual([{name: "open", query: "status:open"}, {name: "mine", query: "author:bob"}])
+        expect(removeSavedSearch(history, "open").saved).toEqual([{name: "mine", query: "author:bob"}])
+    })
+
+    test("stores the history in memory", () => {
+        const storage = createMemoryHistoryStorage()
+        storage.save({recent: ["a"], saved: []})
+        expect(storage.load()).toEqual({recent: ["a"], saved: []})
+    })
+
+    test("stores the history in localStorage and ignores unreadable entries", () => {
+        window.localStorage.clear()
+        const storage = createLocalStorageHistoryStorage("test-history")
+        expect(storage.load()).toEqual({recent: [], saved: []})
+        storage.save({recent: ["a"], saved: [{name: "b", query: "b"}]})
+        expect(createLocalStorageHistoryStorage("test-history").load()).toEqual({recent: ["a"], saved: [{name: "b", query: "b"}]})
+
+        window.localStorage.setItem("test-history", "{broken")
+        expect(storage.load()).toEqual({recent: [], saved: []})
+        window.localStorage.setItem("test-history", JSON.stringify({recent: "a"}))
+        expect(storage.load()).toEqual({recent: [], saved: []})
+    })
+})
@@ -0,0 +1,73 @@
+export interface SavedSearch {
+    name: string
+    query: string
+}
+
+export interface SearchHistory {
+    // most recent first
+    recent: string[]
+    saved: SavedSearch[]
+}
+
+export interface SearchHistoryStorage {
+    load: () => SearchHistory
+    save: (history: SearchHistory) => void
+}
+
+
+function emptyHistory(): SearchHistory {
+    return {recent: [], saved: []}
+}
+
+export function createMemoryHistoryStorage(initial: SearchHistory = emptyHistory()): SearchHistoryStorage {
+    let history = initial
+    return {
+        load: () => history,
+        save: next => {
+            history = next
+        },
+    }
+}
+
+// falls back to an empty history when localStorage is unavailable or holds something unreadable
+export function createLocalStorageHistoryStorage(key: string = "react-search-input-history"): SearchHistoryStorage {
+    return {
+        load: () => {
+            try {
+                const stored = JSON.parse(window.localStorage.getItem(key) ?? 'null')
+                if (stored && Array.isArray(stored.recent) && Array.isArray(stored.saved)) {
+                    return stored
+                }
+            } catch (e) {
+            }
+            return emptyHistory()
+        },
+        save: history => {
+            try {
+                window.localStorage.setItem(key, JSON.stringify(history))
+            } catch (e) {
+            }
+        },
+    }
+}
+
+export function addRecentQuery(history: SearchHistory, query: string, limit: number): SearchHistory {
+    return {
+        ...history,
+        recent: [query, ...history.recent.filter(recent => recent !== query)].slice(0, limit),
+    }
+}
+
+export function addSavedSearch(history: SearchHistory, search: SavedSearch): SearchHistory {
+    return {
+        ...history,
+        saved: [...history.saved.filter(saved => saved.name !== search.name), search],
+    }
+}
+
+export function removeSavedSearch(history: SearchHistory, name: string): SearchHistory {
+    return {
+        ...history,
+        saved: history.saved.filter(saved => saved.name !== name),
+    }
+}
@@ -0,0 +1,101 @@
+import {createMatcher, filterRecords} from "./matcher";
+import {SearchOption} from "./parser";
+
+const options: SearchOption[] = [
+    {name: "status", type: "enum", options: ["open", "closed"]},
+    {name: "tag", type: "string", multiple: true, field: "tags"},
+    {name: "author", type: "string", field: "author.name"},
+    {name: "stars", type: "number"},
+    {name: "price", type: "number-range"},
+    {name: "created", type: "date"},
+    {name: "updated", type: "date-range"},
+]
+
+const records = [
+    {id: 1, title: "Fix the parser", status: "open", tags: ["bug", "parser"], author: {name: "Alice"}, stars: 3, price: 10, created: "2024-01-02T10:00:00", updated: new Date(2024, 0, 5)},
+    {id: 2, title: "Add chips", status: "closed", tags: ["feature"], author: {name: "Bob"}, stars: "5", price: "25", created: new Date(2024, 0, 3), updated: "2024-02-01T00:00:00"},
+    {id: 3, title: "Unknown numbers", status: "open", tags: [], author: null, stars: "many", price: "n/a", created: "not a date", updated: null},
+    {id: 4, title: "Blank numbers", status: "open", tags: [], author: {name: "Carol"}, stars: "", price: NaN, created: null, updated: undefined},
+]
+
+function ids(query: string, grammar?: "flat" | "boolean") {
+    return filterRecords(records, query, options, {grammar}).map(record => record.id)
+}
+
+describe("filterRecords", () => {
+    test("matches free text in the string fields", () => {
+        expect(ids("parser")).toEqual([1])
+        expect(ids("numbers")).toEqual([3, 4])
+    })
+
+    test("matches enum and string options", () => {
+        expect(ids("status:closed")).toEqual([2])
+        expect(ids("author:ali")).toEqual([1])
+        expect(ids("tag:bug tag:feature")).toEqual([1, 2])
+    })
+
+    test("matches numbers and numeric strings", () => {
+        expect(ids("stars:5")).toEqual([2])
+        expect(ids("stars:0")).toEqual([])
+    })
+
+    test("doesn't match a field that is not a number against a range", () => {
+        expect(ids("price:>=0")).toEqual([1, 2])
+        expect(ids("price:..20")).toEqual([1])
+        expect(ids("price:0..100")).toEqual([1, 2])
+    })
+
+    test("matches dates by day and date ranges", () => {
+        expect(ids("created:2024-01-02")).toEqual([1])
+        expect(ids("updated:2024-01-01..2024-01-31")).toEqual([1])
+        expect(ids("updated:>2024-01-31")).toEqual([2])
+    })
+
+    test("matches a boolean query tree", () => {
+        expect(ids("status:open AND NOT tag:bug", "boolean")).toEqual([3, 4])
+        expect(ids("(stars:3 OR stars:5) price:>20", "boolean")).toEqual([2])
+    })
+
+    test("keeps every record for an empty query", () => {
+        expect(ids("")).toEqual([1, 2, 3, 4])
+    })
+})
+
+describe("createMatcher", () => {
+    test("searches the given text fields", () => {
+        const matcher = createMatcher(options, {text: ["bob"], options: {}}, {textFields: ["author.name", record => record.title]})
+        expect(records.filter(matcher).map(record => record.id)).toEqual([2])
+    })
+})
+
+describe("boolean and enum fields", () => {
+    const fieldOptions: SearchOption[] = [
+        {name: "draft", type: "boolean"},
+        {name: "state", type: "enum", options: ["open", "closed"], caseInsensitive: true},
+        {name: "kind", type: "enum", options: ["bug", "feature"]},
+    ]
+    const items = [
+        {id: 1, draft: true, state: "OPEN", kind: "Bug"},
+        {id: 2, draft: "false", state: "Closed", kind: "bug"},
+        {id: 3, draft: "no", state: "open", kind: "feature"},
+        {id: 4, draft: "0", state: "unknown", kind: "feature"},
+        {id: 5, draft: "Yes", state: null, kind: null},
+        {id: 6, draft: "ja", state: "closed", kind: "bug"},
+    ]
+
+    function itemIds(query: string, settings = {}) {
+        return filterRecords(items, query, fieldOptions, settings).map(item => item.id)
+    }
+
+    test("only treats booleans and boolean words as booleans", () => {
+        expect(itemIds("draft:yes")).toEqual([1, 5])
+        expect(itemIds("draft:no")).toEqual([2, 3])
+        expect(itemIds("draft:yes", {trueWords: ["ja"], falseWords: ["nein"]})).toEqual([1, 5, 6])
+    })
+
+    test("compares enums case-insensitively when the option is", () => {
+        expect(itemIds("state:open")).toEqual([1, 3])
+        expect(itemIds("state:closed")).toEqual([2, 6])
+        expect(itemIds("kind:bug")).toEqual([2, 6])
+    })
+})
@@ -0,0 +1,184 @@
+import {booleanWords, FieldAccessor, parse, ParseSettings, QueryNode, SearchOption, SearchParams, ValueRange} from "./parser";
+
+// trueWords and falseWords are also recognised in string fields of boolean options
+export interface MatcherSettings extends Pick<ParseSettings, "trueWords" | "falseWords"> {
+    // fields free text terms are searched in, defaults to every top level string field of the record
+    textFields?: FieldAccessor[]
+}
+
+export type Matcher = (record: any) => boolean
+
+
+function readField(record: any, accessor: FieldAccessor): unknown {
+    if (typeof accessor === "function") {
+        return accessor(record)
+    }
+    let value = record
+    for (const key of accessor.split('.')) {
+        if (value === null || value === undefined) {
+            return undefined
+        }
+        value = value[key]
+    }
+    return value
+}
+
+function toDate(value: unknown): Date | null {
+    if (value instanceof Date) {
+        return value
+    }
+    if (typeof value === "string" || typeof value === "number") {
+        const date = new Date(value)
+        return isNaN(date.getTime()) ? null : date
+    }
+    return null
+}
+
+// numbers and numeric strings, anything else (NaN, blank strings, booleans, ...) doesn't match a number option
+function toNumber(value: unknown): number | null {
+    if (typeof value === "number") {
+        return isNaN(value) ? null : value
+    }
+    if (typeof value === "string" && value.trim().length > 0) {
+        const number = Number(value)
+        return isNaN(number) ? null : number
+    }
+    return null
+}
+
+// booleans and the words the option accepts (or true and false), other strings and numbers aren't booleans
+function toBoolean(option: SearchOption & { type: "boolean" }, value: unknown, settings: MatcherSettings): boolean | null {
+    if (typeof value === "boolean") {
+        return value
+    }
+    if (typeof value === "string") {
+        const [trueWords, falseWords] = booleanWords(option, settings)
+        const word = value.toLowerCase()
+        if (word === "true" || trueWords.some(trueWord => trueWord.toLowerCase() === word)) {
+            return true
+        }
+        if (word === "false" || falseWords.some(falseWord => falseWord.toLowerCase() === word)) {
+            return false
+        }
+    }
+    return null
+}
+
+function inRange<T extends number | Date>(value: T, range: ValueRange<T>): boolean {
+    if (range.min !== null && (range.minExclusive ? value <= range.min : value < range.min)) {
+        return false
+    }
+    return !(range.max !== null && (range.maxExclusive ? value >= range.max : value > range.max))
+}
+
+function matchesValue(option: SearchOption, fieldValue: unknown, value: any, settings: MatcherSettings): boolean {
+    if (Array.isArray(fieldValue)) {
+        return fieldValue.some(item => matchesValue(option, item, value, settings))
+    }
+    if (fieldValue === null || fieldValue === undefined) {
+        return false
+    }
+    switch (option.type) {
+        case "string":
+            return String(fieldValue).toLowerCase().includes(String(value).toLowerCase())
+        case "enum":
+            return option.caseInsensitive ? String(fieldValue).toLowerCase() === value.toLowerCase() : String(fieldValue) === value
+        case "number":
+            return toNumber(fieldValue) === value
+        case "boolean":
+            return toBoolean(option, fieldValue, settings) === value
+        case "date": {
+            const date = toDate(fieldValue)
+            return date !== null && date.toDateString() === (value as Date).toDateString()
+        }
+        case "number-range": {
+            const number = toNumber(fieldValue)
+            return number !== null && inRange(number, value)
+        }
+        case "date-range": {
+            const date = toDate(fieldValue)
+            return date !== null && inRange(date.getTime(), {
+                ...value,
+                min: value.min?.getTime() ?? null,
+                max: value.max?.getTime() ?? null,
+            })
+        }
+    }
+}
+
+function matchesText(record: any, text: string, settings: MatcherSettings): boolean {
+    const needle = text.toLowerCase()
+    const fields = settings.textFields
+        ? settings.textFields.map(field => readField(record, field))
+        : Object.values(record ?? {}).filter(value => typeof value === "string")
+    return fields.some(function matches(value: unknown): boolean {
+        if (Array.isArray(value)) {
+            return value.some(matches)
+        }
+        return value !== null && value !== undefined && String(value).toLowerCase().includes(needle)
+    })
+}
+
+function matchesOption(record: any, option: SearchOption | undefined, value: any, settings: MatcherSettings): boolean {
+    if (option === undefined) {
+        return false
+    }
+    return matchesValue(option, readField(record, option.field ?? option.name), value, settings)
+}
+
+function optionMap(options: SearchOption[]) {
+    const map: { [key: string]: SearchOption } = {}
+    for (const option of options) {
+        map[option.name] = option
+    }
+    return map
+}
+
+// every text term and option has to match, the values of multiple options match if any of them does
+export function createMatcher(options: SearchOption[], params: SearchParams | QueryNode, settings: MatcherSettings = {}): Matcher {
+    const optionsByName = optionMap(options)
+
+    if ('type' in params) {
+        const matchNode = (record: any, node: QueryNode): boolean => {
+            switch (node.type) {
+                case "and":
+                    return node.children.every(child => matchNode(record, child))
+                case "or":
+                    return node.children.some(child => matchNode(record, child))
+                case "not":
+                    return !matchNode(record, node.child)
+                case "text":
+                    return matchesText(record, node.value, settings)
+                case "option":
+                    return matchesOption(record, optionsByName[node.name], node.value, settings)
+            }
+        }
+        return record => matchNode(record, params)
+    }
+
+    return record => {
+        if (!params.text.every(text => matchesText(record, text, settings))) {
+            return false
+        }
+        return Object.entries(params.options).every(([name, entry]) => {
+            const values = 'values' in entry ? entry.values : [entry.value]
+            return values.some(value => matchesOption(record, optionsByName[name], value, settings))
+        })
+    }
+}
+
+
+export function filterRecords<T>(records: T[], query: string | SearchParams | QueryNode, options: SearchOption[], settings: MatcherSettings & ParseSettings = {}): T[] {
+    let params: SearchParams | QueryNode | null
+    if (typeof query === "string") {
+        const result = parse(query, options, settings)
+        params = settings.grammar === "boolean" ? result.query : result.result
+    } else {
+        params = query
+    }
+    if (params === null) {
+        return records
+    }
+    const matcher = createMatcher(options, params, settings)
+    return records.filter(matcher)
+}
@@ -0,0 +1,250 @@
+import fc from "fast-check";
+import {fixtureOptions, parseFixtures} from "./__fixtures__/parse";
+import {conflictingOptions, normalizeQuery, parse, parseDate, SearchOption, SearchParams, stringify} from "./parser";
+
+describe("parse fixtures", () => {
+    test.each(parseFixtures.map(fixture => [fixture.query, fixture] as const))("%s", (query, fixture) => {
+        const result = parse(query, fixtureOptions)
+        expect(result.tokens.map(token => [token.type, token.content])).toEqual(fixture.tokens)
+        expect(result.errors.map(error => [error.code, error.start, error.end])).toEqual(fixture.errors)
+        expect(result.result).toEqual(fixture.params)
+    })
+})
+
+describe("parse properties", () => {
+    test("tokens cover the query without gaps", () => {
+        const queries = fc.string({unit: fc.oneof(fc.char(), fc.constantFrom("\t", "\n", "\u3000"))})
+        fc.assert(fc.property(queries, fc.constantFrom<"flat" | "boolean">("flat", "boolean"), (query, grammar) => {
+            const {tokens} = parse(query, fixtureOptions, {grammar})
+            expect(tokens.map(token => token.content).join('')).toBe(query)
+            let offset = 0
+            for (const token of tokens) {
+                expect(token.start).toBe(offset)
+                expect(token.end).toBe(offset + token.content.length)
+                offset = token.end
+            }
+        }))
+    })
+
+    test("stringify and parse round-trip params", () => {
+        const options: SearchOption[] = [
+            {name: "status", type: "enum", options: ["open", "closed", "in review"]},
+            {name: "tag", type: "string", multiple: true},
+            {name: "stars", type: "number"},
+            {name: "draft", type: "boolean"},
+        ]
+        const word = fc.string({minLength: 1})
+        const params = fc.record({
+            text: fc.array(word, {maxLength: 3}),
+            status: fc.option(fc.constantFrom("open", "closed", "in review"), {nil: undefined}),
+            tag: fc.array(word, {maxLength: 3}),
+            stars: fc.option(fc.integer(), {nil: undefined}),
+            draft: fc.option(fc.boolean(), {nil: undefined}),
+        }).map(({text, status, tag, stars, draft}) => {
+            const result: SearchParams = {text, options: {}}
+            if (status !== undefined) {
+                result.options.status = {value: status}
+            }
+            if (tag.length > 0) {
+                result.options.tag = {values: tag}
+            }
+            if (stars !== undefined) {
+                result.options.stars = {value: stars}
+            }
+            if (draft !== undefined) {
+                result.options.draft = {value: draft}
+            }
+            return result
+        })
+        fc.assert(fc.property(params, expected => {
+            const result = parse(stringify(expected, options), options)
+            expect(result.errors).toEqual([])
+            expect(result.result).toEqual(expected)
+        }))
+    })
+})
+
+describe("localization", () => {
+    const options: SearchOption[] = [
+        {name: "status", type: "enum", options: ["offen", "geschlossen"]},
+        {name: "autor", type: "string"},
+        {name: "entwurf", type: "boolean"},
+        {name: "作者", type: "string"},
+    ]
+
+    test("reports errors with German messages", () => {
+        const messages = {
+            unknownOption: "unbekannte Option",
+            expectedEnum: (values: readonly string[]) => `erwartet ${values.join(" oder ")}`,
+            expectedBoolean: (trueWord: string, falseWord: string) => `erwartet ${trueWord} oder ${falseWord}`,
+        }
+        const result = parse("größe:10 status:neu entwurf:vielleicht", options, {messages, trueWords: ["ja"], falseWords: ["nein"]})
+        expect(result.errors.map(error => [error.code, error.message])).toEqual([
+            ["unknown-option", "unbekannte Option"],
+            ["invalid-enum-value", "erwartet offen oder geschlossen"],
+            ["invalid-boolean-value", "erwartet yes oder no"],
+        ])
+    })
+
+    test("reports errors with Japanese messages", () => {
+        const result = parse("作者: \"閉じていない", options, {messages: {missingOptionValue: "値がありません", missingQuote: "引用符が閉じていません"}})
+        expect(result.errors.map(error => [error.code, error.message, error.start, error.end])).toEqual([
+            ["missing-option-value", "値がありません", 0, 3],
+            ["missing-quote", "引用符が閉じていません", 4, 11],
+        ])
+    })
+
+    test("accepts localized boolean words", () => {
+        const settings = {trueWords: ["ja"], falseWords: ["nein"]}
+        expect(parse("entwurf:ja", options, settings).result?.options.entwurf).toEqual({value: true})
+        expect(parse("entwurf:NEIN", options, settings).result?.options.entwurf).toEqual({value: false})
+        expect(parse("entwurf:yes", options, settings).result?.options.entwurf).toEqual({value: true})
+        expect(parse("entwurf:ja", options).errors.map(error => error.code)).toEqual(["invalid-boolean-value"])
+    })
+
+    test("keeps umlauts and CJK characters in values", () => {
+        const result = parse("autor:Jürgen 作者:山田 \"Grüße aus 東京\" 検索", options)
+        expect(result.errors).toEqual([])
+        expect(result.result).toEqual({
+            text: ["Grüße aus 東京", "検索"],
+            options: {autor: {value: "Jürgen"}, "作者": {value: "山田"}},
+        })
+        expect(stringify(result.result as SearchParams, options)).toBe("\"Grüße aus 東京\" 検索 autor:Jürgen 作者:山田")
+    })
+})
+
+describe("string patterns", () => {
+    test("validates every value against a global or sticky RegExp", () => {
+        for (const pattern of [/^[a-z]+-\d+$/g, /[a-z]+-\d+/y]) {
+            const options: SearchOption[] = [{name: "ticket", type: "string", pattern}]
+            expect(parse("ticket:abc-1", options).errors).toEqual([])
+            expect(parse("ticket:abc-1", options).errors).toEqual([])
+            expect(parse("ticket:1-abc", options).errors.map(error => error.code)).toEqual(["invalid-string-value"])
+            expect(pattern.lastIndex).toBe(0)
+        }
+    })
+
+    test("matches a string pattern against the whole value", () => {
+        const options: SearchOption[] = [{name: "ticket", type: "string", pattern: "[a-z]+-\\d+"}]
+        expect(parse("ticket:abc-1", options).errors).toEqual([])
+        expect(parse("ticket:abc-1x", options).errors.map(error => error.code)).toEqual(["invalid-string-value"])
+    })
+})
+
+describe("parseDate", () => {
+    const now = new Date(2024, 5, 15, 12, 30)
+
+    test("parses plain dates as local midnight", () => {
+        expect(parseDate("2024-02-29", now)).toEqual(new Date(2024, 1, 29))
+    })
+
+    test("rejects days and months that don't exist", () => {
+        for (const str of ["2024-13-01", "2024-00-10", "2023-02-29", "2024-04-31", "2024-01-00"]) {
+            expect(parseDate(str, now)).toBeNull()
+        }
+    })
+
+    test("parses relative dates", () => {
+        expect(parseDate("today", now)).toEqual(new Date(2024, 5, 15))
+        expect(parseDate("yesterday", now)).toEqual(new Date(2024, 5, 14))
+        expect(parseDate("2d", now)).toEqual(new Date(2024, 5, 13, 12, 30))
+    })
+})
+
+describe("boolean grammar", () => {
+    const options: SearchOption[] = [
+        {name: "status", type: "enum", options: ["open", "closed"]},
+        {name: "tag", type: "string", multiple: true},
+        {name: "author", type: "string", requires: ["status"]},
+    ]
+
+    function parseBoolean(query: string) {
+        return parse(query, options, {grammar: "boolean"})
+    }
+
+    test("keeps terms under NOT and OR out of the flat params", () => {
+        expect(parseBoolean("-status:open hello").result).toEqual({text: ["hello"], options: {}})
+        expect(parseBoolean("NOT tag:a tag:b").result).toEqual({text: [], options: {tag: {values: ["b"]}}})
+        expect(parseBoolean("status:open OR status:closed").result).toEqual({text: [], options: {}})
+        expect(parseBoolean("(a OR b) status:closed c").result).toEqual({text: ["c"], options: {status: {value: "closed"}}})
+        expect(parseBoolean("status:open OR status:closed").query).toEqual({
+            type: "or",
+            children: [{type: "option", name: "status", value: "open"}, {type: "option", name: "status", value: "closed"}],
+        })
+    })
+
+    test("reports an option that has to match two values at once", () => {
+        const result = parseBoolean("status:open AND status:closed")
+        expect(result.errors.map(error => [error.code, error.start, error.end])).toEqual([["repeated-option", 16, 29]])
+        expect(result.result).toEqual({text: [], options: {status: {value: "open"}}})
+    })
+
+    test("checks requires against the flat params", () => {
+        expect(parseBoolean("author:bob status:open").errors).toEqual([])
+        expect(parseBoolean("author:bob -status:open").errors.map(error => error.code)).toEqual(["missing-required-option"])
+    })
+})
+
+describe("option rules", () => {
+    const options: SearchOption[] = [
+        {name: "status", type: "enum", options: ["open", "closed"]},
+        {name: "closedBy", type: "string", requires: ["status:closed"]},
+        {name: "assignee", type: "string", conflictsWith: ["unassigned"]},
+        {name: "unassigned", type: "boolean"},
+        {name: "stars", type: "number", validate: (value: number, params) => value > 3 && params.options.status === undefined ? "needs a status" : null},
+    ]
+
+    function codes(query: string) {
+        return parse(query, options).errors.map(error => [error.code, error.start, error.end, error.message])
+    }
+
+    test("reports options whose required options are missing", () => {
+        expect(codes("closedBy:bob status:closed")).toEqual([])
+        expect(codes("closedBy:bob status:open")).toEqual([["missing-required-option", 0, 12, "only applies together with status:closed"]])
+    })
+
+    test("reports conflicting options in both directions", () => {
+        expect(codes("assignee:bob unassigned:yes")).toEqual([
+            ["conflicting-option", 0, 12, "can't be combined with unassigned"],
+            ["conflicting-option", 13, 27, "can't be combined with assignee"],
+        ])
+        expect(conflictingOptions(options[3], {text: [], options: {assignee: {value: "bob"}}}, options)).toEqual(["assignee"])
+        expect(conflictingOptions(options[2], {text: [], options: {}}, options)).toEqual([])
+    })
+
+    test("reports the message of a validate hook", () => {
+        expect(codes("stars:5 status:open")).toEqual([])
+        expect(codes("stars:2")).toEqual([])
+        expect(codes("stars:5")).toEqual([["invalid-value", 0, 7, "needs a status"]])
+    })
+})
+
+describe("normalizeQuery", () => {
+    const options: SearchOption[] = [
+        {name: "author", type: "string", deprecatedNames: ["owner"], aliases: ["by"]},
+        {name: "status", type: "enum", options: ["opened", "closed"], valueAliases: {open: "opened"}, caseInsensitive: true},
+    ]
+
+    test("accepts deprecated names and value aliases with warnings", () => {
+        const result = parse("owner:bob status:OPEN", options)
+        expect(result.result).toEqual({text: [], options: {author: {value: "bob"}, status: {value: "opened"}}})
+        expect(result.errors.map(error => [error.code, error.severity, error.start, error.end])).toEqual([
+            ["deprecated-option-name", "warning", 0, 6],
+            ["deprecated-value", "warning", 17, 21],
+        ])
+    })
+
+    test("rewrites deprecated names and value aliases and keeps everything else", () => {
+        expect(normalizeQuery("owner:bob  by:alice status:OPEN \"free text\"", options)).toEqual({
+            query: "author:bob  by:alice status:opened \"free text\"",
+            rewrites: [
+                {start: 0, end: 6, from: "owner:", to: "author:"},
+                {start: 27, end: 31, from: "OPEN", to: "opened"},
+            ],
+        })
+    })
+
+    test("leaves a current query alone", () => {
+        expect(normalizeQuery("author:bob status:closed", options)).toEqual({query: "author:bob status:closed", rewrites: []})
+    })
+})
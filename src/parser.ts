@@ -0,0 +1,1126 @@
+export interface SearchOptionBase {
+    name: string
+    multiple?: boolean
+    title?: string
+    description?: unknown
+    // alternative names the parser accepts, e.g. "is" for "state"
+    aliases?: string[]
+    // former names that are still accepted with a warning, normalizeQuery rewrites them to the name
+    deprecatedNames?: string[]
+    // where createMatcher reads the value from a record, a dot separated path or an accessor; defaults to the name
+    field?: FieldAccessor
+    // options that must be in the query for this one to apply, either a name or a name:value pair such as "type:issue"
+    requires?: string[]
+    // options this one can't be combined with, in the same form as requires; the rule holds in both directions
+    conflictsWith?: string[]
+    // runs once the whole query is parsed, returns a message when the value is invalid in combination with the others
+    validate?: (value: any, params: SearchParams) => string | null | undefined
+}
+
+export type FieldAccessor = string | ((record: any) => unknown)
+
+export interface Suggestion {
+    name: string
+    description?: string
+    // shown instead of the name
+    label?: string
+    // rendered in front of the label, e.g. an avatar
+    icon?: unknown
+    // suggestions with the same group are listed together under a heading
+    group?: string
+    // inserted instead of the name; values are quoted where needed, so this is the plain value
+    insertText?: string
+}
+
+export interface SuggestionContext {
+    signal: AbortSignal
+    option: SearchOption
+    // caret offset in the query
+    cursor: number
+    params: SearchParams
+}
+
+export type SuggestionProvider = (input: string, context: SuggestionContext) => Promise<Suggestion[]> | Suggestion[]
+
+export type SearchOption =
+    | { type: "number", default?: number | null, min?: number, max?: number, integer?: boolean, suggestionProvider?: SuggestionProvider } & SearchOptionBase
+    // a string pattern has to match the whole value, a RegExp is used as is
+    | { type: "string", default?: string | null, pattern?: RegExp | string, minLength?: number, maxLength?: number, suggestionProvider?: SuggestionProvider } & SearchOptionBase
+    // valueAliases maps former values to current ones, e.g. {open: "opened"}; accepted with a warning like deprecatedNames
+    // labels are shown in place of the values in the autocomplete
+    | { type: "enum", default?: string | null, options: readonly string[], valueAliases?: { [alias: string]: string }, caseInsensitive?: boolean, labels?: { [value: string]: string } } & SearchOptionBase
+    // the first of the words is what formatValue writes, they default to yes and no and are matched case-insensitively
+    | { type: "boolean", default?: boolean | null, trueWords?: string[], falseWords?: string[] } & SearchOptionBase
+    | { type: "date", default?: Date | null } & SearchOptionBase
+    | { type: "number-range", default?: ValueRange<number> | null, suggestionProvider?: SuggestionProvider } & SearchOptionBase
+    | { type: "date-range", default?: ValueRange<Date> | null } & SearchOptionBase
+
+export interface ValueRange<T> {
+    min: T | null
+    max: T | null
+    minExclusive: boolean
+    maxExclusive: boolean
+}
+
+
+const Space = "space"
+const Text = "text"
+const Numeric = "number"
+const Enum = "enum"
+const OptionName = "option-name"
+const InvalidOptionName = "invalid-option-name"
+const EscapeSequence = "escape-sequence"
+const InvalidEscapeSequence = "invalid-escape-sequence"
+const MissingQuote = "missing-quote"
+const MissingOptionValue = "missing-option-value"
+const Invalid = "invalid"
+const DateValue = "date"
+const RangeOperator = "range-operator"
+const ComparisonOperator = "comparison-operator"
+const Operator = "operator"
+const Bracket = "bracket"
+
+export type TokenType =
+    | typeof Space
+    | typeof Text
+    | typeof Numeric
+    | typeof Enum
+    | typeof OptionName
+    | typeof InvalidOptionName
+    | typeof EscapeSequence
+    | typeof InvalidEscapeSequence
+    | typeof MissingQuote
+    | typeof MissingOptionValue
+    | typeof Invalid
+    | typeof DateValue
+    | typeof RangeOperator
+    | typeof ComparisonOperator
+    | typeof Operator
+    | typeof Bracket
+    ;
+
+export interface Token {
+    type: TokenType
+    content: string
+    start: number
+    end: number
+    suggest: "none" | "options" | SearchOption
+}
+
+export type TokenList = Token[]
+
+// the type of the values an option produces
+export type OptionValue<O extends SearchOption> =
+    O extends { type: "number" } ? number
+    : O extends { type: "string" } ? string
+    : O extends { type: "enum", options: readonly (infer V)[] } ? V
+    : O extends { type: "boolean" } ? boolean
+    : O extends { type: "date" } ? Date
+    : O extends { type: "number-range" } ? ValueRange<number>
+    : O extends { type: "date-range" } ? ValueRange<Date>
+    : never
+
+// keyed by option name and typed by option when the names are known, e.g. options built with optionsFromFields
+export interface SearchParams<O extends SearchOption = SearchOption> {
+    text: string[]
+    options: string extends O["name"]
+        ? { [key: string]: { value: any } | { values: any[] } }
+        : { [Option in O as Option["name"]]?: Option extends { multiple: true } ? { values: OptionValue<Option>[] } : { value: OptionValue<Option> } }
+}
+
+export type QueryNode =
+    | { type: "and", children: QueryNode[] }
+    | { type: "or", children: QueryNode[] }
+    | { type: "not", child: QueryNode }
+    | { type: "text", value: string }
+    | { type: "option", name: string, value: any }
+
+export interface ParseSettings {
+    // "boolean" enables AND/OR/NOT keywords, - negation and parentheses
+    grammar?: "flat" | "boolean"
+    // translations of the error messages, missing ones fall back to defaultParseMessages
+    messages?: Partial<ParseMessages>
+    // accepted by every boolean option in addition to its own words, e.g. ["ja"] and ["nein"]
+    trueWords?: string[]
+    falseWords?: string[]
+}
+
+export interface ParseMessages {
+    unknownOption: string
+    repeatedOption: string
+    renamedOption: (name: string) => string
+    missingOptionValue: string
+    expectedBoolean: (trueWord: string, falseWord: string) => string
+    expectedNumber: string
+    expectedWholeNumber: string
+    numberAtLeast: (min: number) => string
+    numberAtMost: (max: number) => string
+    textAtLeast: (length: number) => string
+    textAtMost: (length: number) => string
+    textMatching: (pattern: string) => string
+    expectedEnum: (values: readonly string[]) => string
+    renamedValue: (value: string) => string
+    expectedDate: string
+    rangeStartAfterEnd: string
+    requiresOptions: (rules: string[]) => string
+    conflictsWithOptions: (rules: string[]) => string
+    invalidEscapeSequence: string
+    unexpectedQuote: string
+    unexpectedEscape: string
+    unexpectedColon: string
+    missingQuote: string
+    orNeedsOperands: string
+    andNeedsOperands: string
+    nothingToNegate: string
+    missingClosingParen: string
+    unexpectedClosingParen: string
+}
+
+export const defaultParseMessages: ParseMessages = {
+    unknownOption: "unknown option",
+    repeatedOption: "illegally repeated option",
+    renamedOption: name => `renamed to ${name}`,
+    missingOptionValue: "missing option value",
+    expectedBoolean: (trueWord, falseWord) => `expected ${trueWord} or ${falseWord}`,
+    expectedNumber: "expected a number",
+    expectedWholeNumber: "expected a whole number",
+    numberAtLeast: min => `expected a number of at least ${min}`,
+    numberAtMost: max => `expected a number of at most ${max}`,
+    textAtLeast: length => `expected at least ${length} characters`,
+    textAtMost: length => `expected at most ${length} characters`,
+    textMatching: pattern => `expected text matching ${pattern}`,
+    expectedEnum: values => `expected one of ${values.join(", ")}`,
+    renamedValue: value => `now called ${value}`,
+    expectedDate: "expected a date such as 2024-01-01, today or 7d",
+    rangeStartAfterEnd: "range start is after its end",
+    requiresOptions: rules => `only applies together with ${rules.join(", ")}`,
+    conflictsWithOptions: rules => `can't be combined with ${rules.join(", ")}`,
+    invalidEscapeSequence: "invalid escape sequence",
+    unexpectedQuote: "unexpected quotation mark",
+    unexpectedEscape: "unexpected escape character",
+    unexpectedColon: "unexpected colon character",
+    missingQuote: "missing quotation mark",
+    orNeedsOperands: "OR needs a term on both sides",
+    andNeedsOperands: "AND needs a term on both sides",
+    nothingToNegate: "nothing to negate",
+    missingClosingParen: "missing closing parenthesis",
+    unexpectedClosingParen: "unexpected closing parenthesis",
+}
+
+export interface ParseResult {
+    tokens: TokenList
+    errors: ParseError[]
+    // in boolean grammar the flat params only hold the terms that are not under NOT or OR, query has all of them
+    result: SearchParams | null
+    query: QueryNode | null
+}
+
+export type ParseErrorCode =
+    | "unknown-option"
+    | "repeated-option"
+    | "missing-option-value"
+    | "invalid-boolean-value"
+    | "invalid-number-value"
+    | "invalid-enum-value"
+    | "invalid-string-value"
+    | "invalid-date-value"
+    | "invalid-range-value"
+    | "invalid-escape-sequence"
+    | "unexpected-quote"
+    | "unexpected-escape"
+    | "unexpected-colon"
+    | "missing-quote"
+    | "missing-operand"
+    | "missing-closing-paren"
+    | "unexpected-closing-paren"
+    | "invalid-value"
+    | "missing-required-option"
+    | "conflicting-option"
+    | "deprecated-option-name"
+    | "deprecated-value"
+    ;
+
+export interface ParseError {
+    code: ParseErrorCode
+    severity: "error" | "warning"
+    start: number
+    end: number
+    message: string
+}
+
+export interface QueryRewrite {
+    // range in the original query
+    start: number
+    end: number
+    from: string
+    to: string
+}
+
+export interface NormalizedQuery {
+    query: string
+    rewrites: QueryRewrite[]
+}
+
+export interface CompletionContext {
+    // option names or values of the given option
+    suggest: "options" | SearchOption
+    // the part of the query a completion replaces
+    start: number
+    end: number
+    // the unquoted, unescaped text between start and the cursor that suggestions are matched against
+    input: string
+    // index of the token the cursor is in
+    token: number
+}
+
+
+const relativeDateUnits: { [key: string]: (date: Date, amount: number) => void } = {
+    h: (date, amount) => date.setHours(date.getHours() - amount),
+    d: (date, amount) => date.setDate(date.getDate() - amount),
+    w: (date, amount) => date.setDate(date.getDate() - 7 * amount),
+    m: (date, amount) => date.setMonth(date.getMonth() - amount),
+    y: (date, amount) => date.setFullYear(date.getFullYear() - amount),
+}
+
+// accepts ISO dates (plain dates are local midnight) as well as relative forms: now, today, yesterday and 7d (h, d, w, m, y) for "7 days ago"
+export function parseDate(str: string, now: Date = new Date()): Date | null {
+    const date = new Date(now.getTime())
+    if (str === "now") {
+        return date
+    }
+    if (str === "today" || str === "yesterday") {
+        date.setHours(0, 0, 0, 0)
+        if (str === "yesterday") {
+            date.setDate(date.getDate() - 1)
+        }
+        return date
+    }
+    const relative = /^(\d+)([hdwmy])$/.exec(str)
+    if (relative) {
+        relativeDateUnits[relative[2]](date, Number(relative[1]))
+        return date
+    }
+    const plainDate = /^(\d{4})-(\d{2})-(\d{2})$/.exec(str)
+    if (plainDate) {
+        const [year, month, day] = plainDate.slice(1).map(Number)
+        const parsed = new Date(year, month - 1, day)
+        // the Date constructor rolls out of range parts over into the next ones, e.g. 2024-13-01 into 2025
+        return parsed.getFullYear() === year && parsed.getMonth() === month - 1 && parsed.getDate() === day ? parsed : null
+    }
+    if (/^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/.test(str)) {
+        const parsed = new Date(str.replace(' ', 'T'))
+        return isNaN(parsed.getTime()) ? null : parsed
+    }
+    return null
+}
+
+function parseNumber(str: string): number | null {
+    const value = Number(str)
+    return str.length === 0 || isNaN(value) ? null : value
+}
+
+const escapeSequences: { [key: string]: string } = {
+    n: "\n",
+    '"': '"',
+    '\\': "\\",
+} as const
+
+type QueryItem =
+    | { type: "term", node: QueryNode }
+    | { type: "and" | "or" | "not" | "(" | ")", token: Token }
+
+type QueryErrorReporter = (code: ParseErrorCode, token: Token, message: string, severity?: ParseError["severity"]) => void
+
+function combineNodes(type: "and" | "or", children: QueryNode[]): QueryNode | null {
+    if (children.length === 0) {
+        return null
+    }
+    return children.length === 1 ? children[0] : {type, children}
+}
+
+// precedence from loosest to tightest: OR, AND (also implicit between adjacent terms), NOT
+function buildQueryTree(items: QueryItem[], messages: ParseMessages, report: QueryErrorReporter): QueryNode | null {
+    let pos = 0
+
+    function endsOperand(item: QueryItem | undefined) {
+        return item === undefined || item.type === "and" || item.type === "or" || item.type === ")"
+    }
+
+    function parseOr(): QueryNode | null {
+        const children: QueryNode[] = []
+        const first = parseAnd()
+        if (first !== null) {
+            children.push(first)
+        }
+        while (pos < items.length && items[pos].type === "or") {
+            const operator = items[pos++] as { token: Token }
+            const next = parseAnd()
+            if (children.length === 0 || next === null) {
+                report("missing-operand", operator.token, messages.orNeedsOperands, "warning")
+            }
+            if (next !== null) {
+                children.push(next)
+            }
+        }
+        return combineNodes("or", children)
+    }
+
+    function parseAnd(): QueryNode | null {
+        const children: QueryNode[] = []
+        while (pos < items.length && items[pos].type !== "or" && items[pos].type !== ")") {
+            const item = items[pos]
+            if (item.type === "and") {
+                pos++
+                if (children.length === 0 || endsOperand(items[pos])) {
+                    report("missing-operand", item.token, messages.andNeedsOperands, "warning")
+                }
+                continue
+            }
+            const node = parseUnary()
+            if (node !== null) {
+                children.push(node)
+            }
+        }
+        return combineNodes("and", children)
+    }
+
+    function parseUnary(): QueryNode | null {
+        const item = items[pos++]
+        if (item.type === "not") {
+            if (endsOperand(items[pos])) {
+                report("missing-operand", item.token, messages.nothingToNegate, "warning")
+                return null
+            }
+            const child = parseUnary()
+            return child === null ? null : {type: "not", child}
+        } else if (item.type === "(") {
+            const node = parseOr()
+            if (pos < items.length && items[pos].type === ")") {
+                pos++
+            } else {
+                report("missing-closing-paren", item.token, messages.missingClosingParen)
+            }
+            return node
+        } else if (item.type === "term") {
+            return item.node
+        }
+        return null
+    }
+
+    const nodes: QueryNode[] = []
+    while (pos < items.length) {
+        const node = parseOr()
+        if (node !== null) {
+            nodes.push(node)
+        }
+        if (pos < items.length) {
+            const item = items[pos++] as { token: Token }
+            item.token.type = Invalid
+            report("unexpected-closing-paren", item.token, messages.unexpectedClosingParen)
+        }
+    }
+    return combineNodes("and", nodes)
+}
+
+// the option's own words come first, followed by the ones every boolean option accepts in the given settings
+export function booleanWords(option: SearchOption & { type: "boolean" }, settings: ParseSettings = {}): [string[], string[]] {
+    return [
+        [...(option.trueWords ?? ["yes"]), ...(settings.trueWords ?? [])],
+        [...(option.falseWords ?? ["no"]), ...(settings.falseWords ?? [])],
+    ]
+}
+
+// the g and y flags make test() continue from the last match, which would make the result depend on the previous value
+function matchesPattern(pattern: RegExp | string, value: string): boolean {
+    const regExp = typeof pattern === "string" ? new RegExp(`^(?:${pattern})$`) : new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, ''))
+    return regExp.test(value)
+}
+
+function findValue(values: readonly string[], value: string, caseInsensitive?: boolean): string | undefined {
+    return values.find(candidate => caseInsensitive ? candidate.toLowerCase() === value.toLowerCase() : candidate === value)
+}
+
+export function parse(str: string, config: SearchOption[], settings: ParseSettings = {}): ParseResult {
+    const booleanGrammar = settings.grammar === "boolean"
+    const messages: ParseMessages = {...defaultParseMessages, ...settings.messages}
+    const tokens: TokenList = []
+    const queryItems: QueryItem[] = []
+    const result: SearchParams = {
+        text: [],
+        options: {}
+    }
+
+    const options: {
+        [key: string]: SearchOption
+    } = {}
+    for (const option of config) {
+        for (const alias of [...(option.deprecatedNames ?? []), ...(option.aliases ?? [])]) {
+            options[alias] = option
+        }
+    }
+    for (const option of config) {
+        options[option.name] = option
+    }
+
+    const errors: ParseError[] = []
+
+    let currentTokenText = ""
+    let tokenStart = 0
+    let currentValue = ""
+    let inQuotes = false
+    let escaped = false
+    let inOptionValue = false
+    let currentOption: SearchOption | null = null
+    let currentOptionToken: Token | null = null
+    let quoteStart = 0
+    // position of every valid name:value pair, for the checks that need the whole query
+    const optionTerms: { option: SearchOption, value: any, start: number, end: number, node: QueryNode }[] = []
+
+    function addOptionValue(option: SearchOption, value: any) {
+        if (option.multiple) {
+            if (!result.options.hasOwnProperty(option.name)) {
+                result.options[option.name] = {values: []}
+            }
+            (result.options[option.name] as { values: any[] }).values.push(value)
+        } else {
+            result.options[option.name] = {value}
+        }
+    }
+
+
+    function completeOptionValue() {
+        if (currentOption === null) {
+            throw new Error('logic error')
+        }
+
+        if (currentValue.length === 0) {
+            completeToken(MissingOptionValue)
+            const optionToken = currentOptionToken as Token
+            parseError("missing-option-value", optionToken.start, optionToken.end, messages.missingOptionValue, "warning")
+        } else {
+            let value: any
+            let invalidValue = false
+            switch (currentOption.type) {
+                case "boolean": {
+                    const [trueWords, falseWords] = booleanWords(currentOption, settings)
+                    if (findValue(trueWords, currentValue, true) !== undefined) {
+                        value = true
+                        completeToken(Enum)
+                    } else if (findValue(falseWords, currentValue, true) !== undefined) {
+                        value = false
+                        completeToken(Enum)
+                    } else {
+                        invalidValue = true
+                        completeToken(Invalid)
+                        tokenError("invalid-boolean-value", messages.expectedBoolean(trueWords[0], falseWords[0]))
+                    }
+                    break;
+                }
+                case "string": {
+                    const {pattern, minLength, maxLength} = currentOption
+                    value = currentValue
+                    if (minLength !== undefined && value.length < minLength) {
+                        invalidValue = true
+                        completeToken(Invalid)
+                        tokenError("invalid-string-value", messages.textAtLeast(minLength))
+                    } else if (maxLength !== undefined && value.length > maxLength) {
+                        invalidValue = true
+                        completeToken(Invalid)
+                        tokenError("invalid-string-value", messages.textAtMost(maxLength))
+                    } else if (pattern !== undefined && !matchesPattern(pattern, value)) {
+                        invalidValue = true
+                        completeToken(Invalid)
+                        tokenError("invalid-string-value", messages.textMatching(String(pattern)))
+                    } else {
+                        completeToken(Text)
+                    }
+                    break;
+                }
+                case "number":
+                    value = Number(currentValue)
+                    if (isNaN(value)) {
+                        invalidValue = true
+                        completeToken(Invalid)
+                        tokenError("invalid-number-value", messages.expectedNumber)
+                    } else if (currentOption.integer && !Number.isInteger(value)) {
+                        invalidValue = true
+                        completeToken(Invalid)
+                        tokenError("invalid-number-value", messages.expectedWholeNumber)
+                    } else if (currentOption.min !== undefined && value < currentOption.min) {
+                        invalidValue = true
+                        completeToken(Invalid)
+                        tokenError("invalid-number-value", messages.numberAtLeast(currentOption.min))
+                    } else if (currentOption.max !== undefined && value > currentOption.max) {
+                        invalidValue = true
+                        completeToken(Invalid)
+                        tokenError("invalid-number-value", messages.numberAtMost(currentOption.max))
+                    } else {
+                        completeToken(Numeric)
+                    }
+                    break;
+                case "enum": {
+                    const {options: values, valueAliases = {}, caseInsensitive} = currentOption
+                    const alias = findValue(Object.keys(valueAliases), currentValue, caseInsensitive)
+                    value = findValue(values, currentValue, caseInsensitive)
+                    if (value !== undefined) {
+                        completeToken(Enum)
+                    } else if (alias !== undefined) {
+                        value = valueAliases[alias]
+                        completeToken(Enum)
+                        const valueStart = (currentOptionToken as Token).end
+                        parseError("deprecated-value", valueStart, tokenStart, messages.renamedValue(value), "warning")
+                    } else {
+                        invalidValue = true
+                        completeToken(Invalid)
+                        tokenError("invalid-enum-value", messages.expectedEnum(values))
+                    }
+                    break;
+                }
+                case "date":
+                    value = parseDate(currentValue)
+                    if (value === null) {
+                        invalidValue = true
+                        completeToken(Invalid)
+                        tokenError("invalid-date-value", messages.expectedDate)
+                    } else {
+                        completeToken(DateValue)
+                    }
+                    break;
+                case "number-range":
+                    value = completeRangeValue(parseNumber, Numeric, "invalid-number-value", messages.expectedNumber)
+                    invalidValue = value === null
+                    break;
+                case "date-range":
+                    value = completeRangeValue(parseDate, DateValue, "invalid-date-value", messages.expectedDate)
+                    invalidValue = value === null
+            }
+            currentValue = ''
+            if (!invalidValue) {
+                const node: QueryNode = {type: "option", name: currentOption.name, value}
+                optionTerms.push({option: currentOption, value, start: (currentOptionToken as Token).start, end: tokenStart, node})
+                queryItems.push({type: "term", node})
+                addOptionValue(currentOption, value)
+            }
+        }
+        currentOption = null
+        currentOptionToken = null
+        inOptionValue = false
+    }
+
+    // splits ranges (10..50) and comparisons (>100) into bound and operator tokens, quoted values stay one token
+    function completeRangeValue<T extends number | Date>(parseBound: (str: string) => T | null, boundType: TokenType, code: ParseErrorCode, message: string): ValueRange<T> | null {
+        const range: ValueRange<T> = {min: null, max: null, minExclusive: false, maxExclusive: false}
+        const pieces: [string, TokenType][] = []
+        let valid = true
+
+        function bound(str: string) {
+            const value = parseBound(str)
+            pieces.push([str, value === null ? Invalid : boundType])
+            valid = valid && value !== null
+            return value
+        }
+
+        const comparison = /^(>=|<=|>|<)(.*)$/.exec(currentValue)
+        const between = /^(.*?)\.\.(.*)$/.exec(currentValue)
+        if (comparison !== null) {
+            pieces.push([comparison[1], ComparisonOperator])
+            const value = bound(comparison[2])
+            if (comparison[1][0] === '>') {
+                range.min = value
+                range.minExclusive = comparison[1] === '>'
+            } else {
+                range.max = value
+                range.maxExclusive = comparison[1] === '<'
+            }
+        } else if (between !== null && (between[1].length > 0 || between[2].length > 0)) {
+            range.min = between[1].length > 0 ? bound(between[1]) : null
+            pieces.push(['..', RangeOperator])
+            range.max = between[2].length > 0 ? bound(between[2]) : null
+        } else {
+            range.min = range.max = bound(currentValue)
+        }
+
+        const valueStart = tokenStart
+        if (currentTokenText !== currentValue) {
+            completeToken(valid ? boundType : Invalid)
+        } else {
+            for (const [text, type] of pieces) {
+                currentTokenText = text
+                completeToken(type)
+            }
+        }
+
+        if (!valid) {
+            parseError(code, valueStart, tokenStart, message)
+            return null
+        }
+        if (range.min !== null && range.max !== null && range.min > range.max) {
+            parseError("invalid-range-value", valueStart, tokenStart, messages.rangeStartAfterEnd)
+            return null
+        }
+        return range
+    }
+
+    function completeWord() {
+        if (booleanGrammar && /^(AND|OR|NOT)$/.test(currentValue)) {
+            completeToken(Operator)
+            queryItems.push({type: currentValue.toLowerCase() as "and" | "or" | "not", token: tokens[tokens.length - 1]})
+        } else {
+            completeToken(Text)
+            result.text.push(currentValue)
+            queryItems.push({type: "term", node: {type: "text", value: currentValue}})
+        }
+        currentValue = ''
+    }
+
+    function completeToken(type: TokenType) {
+        let suggest: "none" | "options" | SearchOption
+        if (inOptionValue || type === MissingOptionValue) {
+            suggest = currentOption as SearchOption
+        } else if (type === Text || type === Space) {
+            suggest = "options"
+        } else {
+            suggest = "none"
+        }
+        tokens.push({
+            type,
+            content: currentTokenText,
+            start: tokenStart,
+            end: tokenStart + currentTokenText.length,
+            suggest: suggest
+        })
+        tokenStart += currentTokenText.length
+        currentTokenText = ""
+    }
+
+
+    function parseError(code: ParseErrorCode, start: number, end: number, message: string, severity: ParseError["severity"] = "error") {
+        errors.push({code, severity, start, end, message})
+    }
+
+    // reports an error spanning the most recently completed token
+    function tokenError(code: ParseErrorCode, message: string, severity: ParseError["severity"] = "error") {
+        const token = tokens[tokens.length - 1]
+        parseError(code, token.start, token.end, message, severity)
+    }
+
+    for (let i = 0; i < str.length; i++) {
+        const currentChar = str[i]
+        if (inQuotes) {
+            if (escaped) {
+                currentTokenText += currentChar
+                if (currentChar in escapeSequences) {
+                    currentValue += escapeSequences[currentChar]
+                    completeToken(EscapeSequence)
+                } else {
+                    completeToken(InvalidEscapeSequence)
+                    tokenError("invalid-escape-sequence", messages.invalidEscapeSequence)
+                }
+                currentTokenText = ""
+                escaped = false
+            } else {
+                if (currentChar === '"') {
+                    currentTokenText += '"'
+                    if (inOptionValue) {
+                        completeOptionValue()
+                    } else {
+                        completeToken(Text)
+                        result.text.push(currentValue)
+                        queryItems.push({type: "term", node: {type: "text", value: currentValue}})
+                        currentValue = ""
+                    }
+                    inQuotes = false
+                } else if (currentChar === '\\') {
+                    completeToken(Text)
+                    currentTokenText = "\\"
+                    escaped = true
+                } else {
+                    currentTokenText += currentChar
+                    currentValue += currentChar
+                }
+            }
+        } else if (booleanGrammar && (currentChar === '(' || currentChar === ')')) {
+            if (inOptionValue) {
+                completeOptionValue()
+            } else if (currentTokenText.length > 0) {
+                completeWord()
+            }
+            currentTokenText = currentChar
+            completeToken(Bracket)
+            queryItems.push({type: currentChar, token: tokens[tokens.length - 1]})
+        } else {
+            if (inOptionValue) {
+                if (currentChar === '"') {
+                    if (currentTokenText.length === 0) {
+                        inQuotes = true
+                        quoteStart = i
+                        currentTokenText = '"'
+                    } else {
+                        completeOptionValue()
+                        currentTokenText = '"'
+                        completeToken(Invalid)
+                        tokenError("unexpected-quote", messages.unexpectedQuote)
+                    }
+                } else if (/\s/.test(currentChar)) {
+                    completeOptionValue()
+                    currentTokenText = currentChar
+                    completeToken(Space)
+                } else if (currentChar === '\\') {
+                    completeOptionValue()
+                    currentTokenText = '\\'
+                    completeToken(Invalid)
+                    tokenError("unexpected-escape", messages.unexpectedEscape)
+                } else if (currentChar === ':') {
+                    completeOptionValue()
+                    currentTokenText = ":"
+                    completeToken(Invalid)
+                    tokenError("unexpected-colon", messages.unexpectedColon)
+                } else {
+                    currentTokenText += currentChar
+                    currentValue += currentChar
+                }
+            } else {
+                if (/\s/.test(currentChar)) {
+                    if (currentTokenText.length > 0) {
+                        completeWord()
+                    }
+                    currentTokenText = currentChar
+                    completeToken(Space)
+                    currentValue = ''
+                } else if (currentChar === '"') {
+                    if (currentTokenText.length === 0) {
+                        inQuotes = true
+                        quoteStart = i
+                        currentTokenText = '"'
+                    } else {
+                        completeToken(Text)
+                        currentTokenText = '"'
+                        completeToken(Invalid)
+                        tokenError("unexpected-quote", messages.unexpectedQuote)
+                    }
+                } else if (currentChar === '\\') {
+                    if (currentTokenText.length > 0) {
+                        completeToken(Text)
+                    }
+                    currentTokenText = '\\'
+                    completeToken(Invalid)
+                    tokenError("unexpected-escape", messages.unexpectedEscape)
+                } else if (currentChar === ':') {
+                    currentTokenText += ':'
+                    if (currentValue.length === 0) {
+                        completeToken(Invalid)
+                        tokenError("unexpected-colon", messages.unexpectedColon)
+                    } else {
+                        if (options.hasOwnProperty(currentValue)) {
+                            if (!booleanGrammar && !options[currentValue].multiple && result.options.hasOwnProperty(options[currentValue].name)) {
+                                completeToken(InvalidOptionName)
+                                tokenError("repeated-option", messages.repeatedOption)
+                            } else {
+                                completeToken(OptionName)
+                                if (options[currentValue].deprecatedNames?.includes(currentValue)) {
+                                    tokenError("deprecated-option-name", messages.renamedOption(options[currentValue].name), "warning")
+                                }
+                                currentOption = options[currentValue]
+                                currentOptionToken = tokens[tokens.length - 1]
+                                inOptionValue = true
+                            }
+                        } else {
+                            completeToken(InvalidOptionName)
+                            tokenError("unknown-option", messages.unknownOption)
+                        }
+                        currentValue = ''
+                    }
+                } else if (booleanGrammar && currentChar === '-' && currentTokenText.length === 0 && i + 1 < str.length && !/[\s)]/.test(str[i + 1])) {
+                    currentTokenText = '-'
+                    completeToken(Operator)
+                    queryItems.push({type: "not", token: tokens[tokens.length - 1]})
+                } else {
+                    currentTokenText += currentChar
+                    currentValue += currentChar
+                }
+            }
+        }
+    }
+
+    if (inQuotes) {
+        completeToken(Text)
+        if (inOptionValue) {
+            completeOptionValue()
+        } else {
+            result.text.push(currentValue)
+            queryItems.push({type: "term", node: {type: "text", value: currentValue}})
+        }
+        parseError("missing-quote", quoteStart, str.length, messages.missingQuote)
+        completeToken(MissingQuote)
+    } else if (inOptionValue) {
+        completeOptionValue()
+    } else {
+        if (currentValue.length > 0) {
+            completeWord()
+        }
+    }
+
+    const query = buildQueryTree(queryItems, messages, (code, token, message, severity) => parseError(code, token.start, token.end, message, severity))
+
+    // in boolean grammar the flat params only hold the terms the top level ANDs together, which every match has to
+    // satisfy; a term under NOT or OR would turn into a plain filter there, so those are only part of query
+    let checkedTerms = optionTerms
+    if (booleanGrammar) {
+        result.text = []
+        result.options = {}
+        checkedTerms = []
+        const collect = (node: QueryNode | null) => {
+            if (node?.type === "and") {
+                node.children.forEach(collect)
+            } else if (node?.type === "text") {
+                result.text.push(node.value)
+            } else if (node?.type === "option") {
+                const term = optionTerms.find(term => term.node === node) as typeof optionTerms[number]
+                if (!term.option.multiple && result.options.hasOwnProperty(term.option.name)) {
+                    parseError("repeated-option", term.start, term.end, messages.repeatedOption)
+                } else {
+                    addOptionValue(term.option, term.value)
+                    checkedTerms.push(term)
+                }
+            }
+        }
+        collect(query)
+    }
+
+    for (const {option, value, start, end} of checkedTerms) {
+        const missing = (option.requires ?? []).filter(rule => !matchesRule(rule, result, options))
+        if (missing.length > 0) {
+            parseError("missing-required-option", start, end, messages.requiresOptions(missing))
+        }
+        const conflicts = conflictingOptions(option, result, config)
+        if (conflicts.length > 0) {
+            parseError("conflicting-option", start, end, messages.conflictsWithOptions(conflicts))
+        }
+        const message = option.validate?.(value, result)
+        if (message) {
+            parseError("invalid-value", start, end, message)
+        }
+    }
+
+    return {
+        tokens,
+        errors,
+        // result: errors.length > 0 ? null : result,
+        result,
+        query,
+    }
+}
+
+function isWordSeparator(token: Token) {
+    return token.type === Space || token.type === Bracket || token.type === Operator
+}
+
+function unquote(raw: string): string {
+    if (raw[0] === '"') {
+        raw = raw.slice(1)
+        if (/(^|[^\\])(\\\\)*"$/.test(raw)) {
+            raw = raw.slice(0, -1)
+        }
+    }
+    return raw.replace(/\\(.?)/g, (sequence, char) => escapeSequences[char] ?? char)
+}
+
+// finds what the word under the cursor completes to: the option name part of a name:value pair or a free text word
+// complete to option names, the value part (after the last range operator for ranges) to values of that option
+export function completionContext(result: ParseResult, cursor: number): CompletionContext | null {
+    const {tokens} = result
+    const query = tokens.map(token => token.content).join('')
+    let index = tokens.findIndex(token => !isWordSeparator(token) && token.start < cursor && cursor <= token.end)
+    if (index < 0) {
+        index = tokens.findIndex(token => !isWordSeparator(token) && token.start === cursor)
+    }
+    if (index < 0) {
+        // a new word at the cursor
+        const token = tokens.findIndex(token => token.start < cursor && cursor <= token.end)
+        return token < 0 ? null : {suggest: "options", start: cursor, end: cursor, input: '', token}
+    }
+
+    let first = index, last = index
+    while (first > 0 && !isWordSeparator(tokens[first - 1])) {
+        first--
+    }
+    while (last + 1 < tokens.length && !isWordSeparator(tokens[last + 1])) {
+        last++
+    }
+
+    const firstToken = tokens[first]
+    const isName = firstToken.type === OptionName || firstToken.type === InvalidOptionName
+    if (firstToken.type === OptionName && cursor >= firstToken.end) {
+        const option = tokens[first + 1]?.suggest
+        if (typeof option !== "object") {
+            return null
+        }
+        let start = firstToken.end, end = tokens[last].end
+        for (let i = first + 1; i <= last; i++) {
+            if (tokens[i].type === RangeOperator || tokens[i].type === ComparisonOperator) {
+                if (tokens[i].end <= cursor) {
+                    start = tokens[i].end
+                } else if (tokens[i].start >= cursor) {
+                    end = tokens[i].start
+                    break
+                }
+            }
+        }
+        return {suggest: option, start, end, input: unquote(query.slice(start, cursor)), token: Math.max(index, first + 1)}
+    } else if (isName || firstToken.suggest === "options") {
+        const end = isName ? firstToken.end : tokens[last].end
+        return {suggest: "options", start: firstToken.start, end, input: unquote(query.slice(firstToken.start, cursor)), token: index}
+    }
+    return null
+}
+
+
+// rewrites deprecated option names and enum value aliases into their current form, everything else stays as typed
+export function normalizeQuery(str: string, options: SearchOption[], settings: ParseSettings = {}): NormalizedQuery {
+    const {tokens, errors} = parse(str, options, settings)
+    const rewrites: QueryRewrite[] = []
+    for (const error of errors) {
+        const index = tokens.findIndex(token => token.start === error.start)
+        const from = str.slice(error.start, error.end)
+        if (error.code === "deprecated-option-name") {
+            const option = tokens[index + 1].suggest as SearchOption
+            rewrites.push({start: error.start, end: error.end, from, to: option.name + ':'})
+        } else if (error.code === "deprecated-value") {
+            const option = tokens[index].suggest as SearchOption & { type: "enum" }
+            const valueAliases = option.valueAliases ?? {}
+            const alias = findValue(Object.keys(valueAliases), unquote(from), option.caseInsensitive) as string
+            rewrites.push({start: error.start, end: error.end, from, to: quoteValue(valueAliases[alias])})
+        }
+    }
+    rewrites.sort((a, b) => a.start - b.start)
+
+    let query = str
+    for (const rewrite of rewrites.slice().reverse()) {
+        query = query.slice(0, rewrite.start) + rewrite.to + query.slice(rewrite.end)
+    }
+    return {query, rewrites}
+}
+
+// a rule is an option name, which matches any value, or a name:value pair
+function matchesRule(rule: string, params: SearchParams, options: { [key: string]: SearchOption }): boolean {
+    const separator = rule.indexOf(':')
+    const option = options[separator < 0 ? rule : rule.slice(0, separator)]
+    if (option === undefined || !params.options.hasOwnProperty(option.name)) {
+        return false
+    }
+    if (separator < 0) {
+        return true
+    }
+    const entry = params.options[option.name]
+    const values = 'values' in entry ? entry.values : [entry.value]
+    return values.some(value => formatValue(option, value) === rule.slice(separator + 1))
+}
+
+// the rules of the given option and those of the other options in params that mention it, which keeps
+// conflictsWith symmetric; returns the conflicting rules for the messages
+export function conflictingOptions(option: SearchOption, params: SearchParams, config: SearchOption[]): string[] {
+    const options: { [key: string]: SearchOption } = {}
+    for (const opt of config) {
+        for (const alias of opt.aliases ?? []) {
+            options[alias] = opt
+        }
+    }
+    for (const opt of config) {
+        options[opt.name] = opt
+    }
+    const conflicts = (option.conflictsWith ?? []).filter(rule => matchesRule(rule, params, options))
+    for (const other of config) {
+        if (other !== option && params.options.hasOwnProperty(other.name) && (other.conflictsWith ?? []).some(rule =>
+            options[rule.split(':')[0]] === option && (rule.indexOf(':') < 0 || matchesRule(rule, params, options)))) {
+            conflicts.push(other.name)
+        }
+    }
+    return conflicts
+}
+
+
+const escapedCharacters: { [key: string]: string } = {}
+for (const [sequence, char] of Object.entries(escapeSequences)) {
+    escapedCharacters[char] = '\\' + sequence
+}
+
+// parentheses, a leading - and the AND/OR/NOT keywords are quoted as well so the text reads the same in boolean grammar
+export function quoteValue(value: string): string {
+    if (value.length > 0 && !/(\s|"|\\|:|\(|\))/.test(value) && !/^(-|(AND|OR|NOT)$)/.test(value)) {
+        return value
+    }
+    let quoted = ''
+    for (const char of value) {
+        quoted += escapedCharacters[char] ?? char
+    }
+    return `"${quoted}"`
+}
+
+// local midnight is written as a plain date, which parseDate reads back as local midnight
+function formatDate(date: Date): string {
+    if (date.getHours() === 0 && date.getMinutes() === 0 && date.getSeconds() === 0 && date.getMilliseconds() === 0) {
+        const pad = (value: number) => String(value).padStart(2, '0')
+        return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+    }
+    return date.toISOString()
+}
+
+function formatRange<T>(range: ValueRange<T>, format: (value: T) => string): string {
+    if (range.min !== null && range.max !== null) {
+        return format(range.min) === format(range.max) ? format(range.min) : `${format(range.min)}..${format(range.max)}`
+    } else if (range.min !== null) {
+        return (range.minExclusive ? '>' : '>=') + format(range.min)
+    } else if (range.max !== null) {
+        return (range.maxExclusive ? '<' : '<=') + format(range.max)
+    }
+    return ''
+}
+
+export function formatValue(option: SearchOption, value: any): string | null {
+    if (value === null || value === undefined) {
+        return null
+    }
+    switch (option.type) {
+        case "boolean": {
+            const [trueWords, falseWords] = booleanWords(option)
+            return value ? trueWords[0] : falseWords[0]
+        }
+        case "number":
+            return isNaN(value) ? null : String(value)
+        case "string":
+        case "enum":
+            return String(value)
+        case "date":
+            return formatDate(value)
+        case "number-range":
+            return formatRange(value, String)
+        case "date-range":
+            return formatRange(value, formatDate)
+    }
+}
+
+function stringifyValue(option: SearchOption, value: any): string | null {
+    const str = formatValue(option, value)
+    if (str === null || option.type === "number" || option.type === "boolean") {
+        return str
+    }
+    return quoteValue(str)
+}
+
+export function stringify(params: SearchParams, options: SearchOption[]): string {
+    const parts = params.text.map(quoteValue)
+    for (const option of options) {
+        if (!params.options.hasOwnProperty(option.name)) {
+            continue
+        }
+        const entry = params.options[option.name]
+        const values = 'values' in entry ? entry.values : [entry.value]
+        for (const value of option.multiple ? values : values.slice(0, 1)) {
+            const str = stringifyValue(option, value)
+            if (str !== null) {
+                parts.push(`${option.name}:${str}`)
+            }
+        }
+    }
+    return parts.join(' ')
+}
@@ -0,0 +1,68 @@
+import {optionsFromFields, optionsFromJSONSchema} from "./schema";
+import {parse, SearchParams} from "./parser";
+
+describe("optionsFromJSONSchema", () => {
+    test("turns properties into options", () => {
+        const options = optionsFromJSONSchema({
+            type: "object",
+            properties: {
+                status: {type: "string", enum: ["open", "closed"], title: "Status"},
+                stars: {type: "integer", minimum: 0, maximum: 5, description: "rating"},
+                price: {type: ["number", "null"]},
+                draft: {type: "boolean"},
+                created: {type: "string", format: "date-time"},
+                code: {type: "string", pattern: "^[A-Z]+$", minLength: 2, maxLength: 8},
+                tags: {type: "array", items: {type: "string"}},
+                owner: {type: "object", properties: {name: {type: "string"}}},
+                matrix: {type: "array", items: {type: "array", items: {type: "number"}}},
+                mixed: {enum: ["a", 1]},
+            },
+        })
+        expect(options).toEqual([
+            {name: "status", title: "Status", type: "enum", options: ["open", "closed"]},
+            {name: "stars", description: "rating", type: "number", min: 0, max: 5, integer: true},
+            {name: "price", type: "number", min: undefined, max: undefined, integer: false},
+            {name: "draft", type: "boolean"},
+            {name: "created", type: "date"},
+            {name: "code", type: "string", pattern: /^[A-Z]+$/, minLength: 2, maxLength: 8},
+            {name: "tags", type: "string", multiple: true, pattern: undefined, minLength: undefined, maxLength: undefined},
+        ])
+    })
+
+    test("produces options the parser validates with", () => {
+        const options = optionsFromJSONSchema({
+            properties: {
+                stars: {type: "integer", minimum: 0, maximum: 5},
+                code: {type: "string", pattern: "^[A-Z]+$"},
+            },
+        })
+        expect(parse("stars:3 code:AB", options).result).toEqual({text: [], options: {stars: {value: 3}, code: {value: "AB"}}})
+        expect(parse("stars:7 code:ab", options).errors.map(error => error.code)).toEqual(["invalid-number-value", "invalid-string-value"])
+    })
+
+    test("has no options without properties", () => {
+        expect(optionsFromJSONSchema({type: "string"})).toEqual([])
+    })
+})
+
+describe("optionsFromFields", () => {
+    test("names options after their keys", () => {
+        const options = optionsFromFields({
+            status: {type: "enum", options: ["open", "closed"] as const},
+            tag: {type: "string", multiple: true as const},
+            stars: {type: "number"},
+        })
+        expect(options).toEqual([
+            {name: "status", type: "enum", options: ["open", "closed"]},
+            {name: "tag", type: "string", multiple: true},
+            {name: "stars", type: "number"},
+        ])
+
+        const params = parse("status:open tag:a tag:b stars:2", options).result as SearchParams<typeof options[number]>
+        // checked by the type-check: the params are typed by option
+        const status: "open" | "closed" | undefined = params.options.status?.value
+        const tags: string[] | undefined = params.options.tag?.values
+        const stars: number | undefined = params.options.stars?.value
+        expect([status, tags, stars]).toEqual(["open", ["a", "b"], 2])
+    })
+})
@@ -0,0 +1,86 @@
+import {SearchOption} from "./parser";
+
+
+// the part of JSON Schema optionsFromJSONSchema understands
+export interface JSONSchema {
+    type?: string | string[]
+    title?: string
+    description?: string
+    properties?: { [name: string]: JSONSchema }
+    items?: JSONSchema
+    enum?: unknown[]
+    format?: string
+    minimum?: number
+    maximum?: number
+    pattern?: string
+    minLength?: number
+    maxLength?: number
+}
+
+type DistributiveOmit<T, K extends keyof any> = T extends unknown ? Omit<T, K> : never
+
+export type FieldDefinition = DistributiveOmit<SearchOption, "name">
+
+export type FieldOptions<Fields> = { [Name in keyof Fields & string]: Fields[Name] & { name: Name } }[keyof Fields & string]
+
+
+// every key of the map becomes the name of an option; declare enum options and multiple `as const` so the params are typed precisely
+export function optionsFromFields<Fields extends { [name: string]: FieldDefinition }>(fields: Fields): FieldOptions<Fields>[] {
+    const options: SearchOption[] = Object.keys(fields).map(name => ({...fields[name], name}))
+    return options as FieldOptions<Fields>[]
+}
+
+// nullable fields are written as ["string", "null"]
+function schemaType(schema: JSONSchema): string | undefined {
+    return Array.isArray(schema.type) ? schema.type.find(type => type !== "null") : schema.type
+}
+
+function optionFromSchema(name: string, schema: JSONSchema, multiple: boolean): SearchOption | null {
+    const type = schemaType(schema)
+    if (type === "array") {
+        return schema.items && !multiple ? optionFromSchema(name, schema.items, true) : null
+    }
+
+    const base: { name: string, title?: string, description?: string, multiple?: boolean } = {name}
+    if (schema.title !== undefined) {
+        base.title = schema.title
+    }
+    if (schema.description !== undefined) {
+        base.description = schema.description
+    }
+    if (multiple) {
+        base.multiple = true
+    }
+
+    if (schema.enum !== undefined && schema.enum.every(value => typeof value === "string")) {
+        return {...base, type: "enum", options: schema.enum as string[]}
+    }
+    switch (type) {
+        case "boolean":
+            return {...base, type: "boolean"}
+        case "number":
+        case "integer":
+            return {...base, type: "number", min: schema.minimum, max: schema.maximum, integer: type === "integer"}
+        case "string":
+            if (schema.format === "date" || schema.format === "date-time") {
+                return {...base, type: "date"}
+            }
+            // JSON Schema patterns aren't anchored, which is how a RegExp pattern is tested
+            const pattern = schema.pattern !== undefined ? new RegExp(schema.pattern) : undefined
+            return {...base, type: "string", pattern, minLength: schema.minLength, maxLength: schema.maxLength}
+        default:
+            return null
+    }
+}
+
+// each property of an object schema becomes an option, properties without a search equivalent such as nested objects are left out
+export function optionsFromJSONSchema(schema: JSONSchema): SearchOption[] {
+    const options: SearchOption[] = []
+    for (const [name, property] of Object.entries(schema.properties ?? {})) {
+        const option = optionFromSchema(name, property, false)
+        if (option !== null) {
+            options.push(option)
+        }
+    }
+    return options
+}